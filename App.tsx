@@ -1,13 +1,39 @@
 
 
-import React, { useState, useCallback, useRef } from 'react';
-import { VoiceName, AppMode, Character, ScriptLine, GeneratedAudio, Snippet, Subsection } from './types';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { VoiceName, AppMode, Character, ScriptLine, GeneratedAudio, Snippet, Subsection, UploadedAudio, ProjectSummary, ProjectWorkspace, ProgramSettings, LexiconEntry, DialogueSettings, Timeline, LoudnessSettings, SilenceSettings, ClipPadding, ExportSettings, ClipMetadata } from './types';
 import { VoiceSelector } from './components/VoiceSelector';
 import { AudioPlayer } from './components/AudioPlayer';
 import { SectionEditor } from './components/SectionEditor';
 import { TableOfContents } from './components/TableOfContents';
-import { generateSingleVoice, generateDialogue, generateClonedSpeech, transcribeAudio } from './services/geminiService';
-import { decodeAudioData, bufferToWavBlob } from './utils/audioUtils';
+import { ProjectManager, SaveStatus } from './components/ProjectManager';
+import { ProviderId } from './services/ttsProvider';
+import { PROVIDER_OPTIONS, DEFAULT_PROVIDER_ID, getTtsProvider, getSttProvider } from './services/providers';
+import { listProjects, createProject, loadProject, saveProject, renameProject, duplicateProject, deleteProject, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { NarrationChunk, DEFAULT_MAX_CHUNK_CHARS, planChunks, generateChunks, assembleChunks } from './services/chunkedNarration';
+import { ChunkProgress } from './components/ChunkProgress';
+import { ProgramRenderPanel } from './components/ProgramRenderPanel';
+import { DEFAULT_PROGRAM_SETTINGS } from './services/programRenderer';
+import { GenerationQueue, QueueProgress, QueueTask, IDLE_QUEUE_PROGRESS, DEFAULT_QUEUE_CONCURRENCY, createGenerationQueue, getGenerationKey, needsGeneration } from './services/generationQueue';
+import { decodeAudioData, bufferToWavBlob, TTS_SAMPLE_RATE } from './utils/audioUtils';
+import { formatFileName, downloadBlob } from './utils/fileUtils';
+import { describeError } from './services/ttsErrors';
+import { getRespelling, withLexicon } from './services/lexicon';
+import { generateDialogueTrack } from './services/dialogueBatching';
+import { DEFAULT_DIALOGUE_SETTINGS, getLineGenerationKey, isStaleLine, lineNeedsGeneration, assembleDialogueLines } from './services/dialogueLines';
+import { ScriptTransfer } from './components/ScriptTransfer';
+import { LexiconPanel } from './components/LexiconPanel';
+import { TimelineEditor } from './components/TimelineEditor';
+import { DEFAULT_TIMELINE } from './services/timeline';
+import { DEFAULT_LOUDNESS_SETTINGS, normalizeGeneratedAudio } from './services/loudness';
+import { LoudnessPanel } from './components/LoudnessPanel';
+import { DEFAULT_SILENCE_SETTINGS, applySilenceSettings } from './services/silence';
+import { SilencePanel } from './components/SilencePanel';
+import { PaddingOverride } from './components/PaddingOverride';
+import { DEFAULT_EXPORT_SETTINGS } from './services/audioExport';
+import { ExportPanel } from './components/ExportPanel';
+import { alignWords } from './services/alignment';
 
 // Default initial state
 const DEFAULT_CHARACTERS: Character[] = [
@@ -20,44 +46,97 @@ const DEFAULT_SCRIPT: ScriptLine[] = [
   { id: 's2', characterId: '2', text: 'And I am the second speaker, using Puck. We can talk to each other!' },
 ];
 
-const CALIBRATION_TEXT = "The quick brown fox jumps over the lazy dog. Voice cloning technology allows for creating realistic speech from just a short audio sample. I am reading this text to calibrate the system with my unique vocal tone, pacing, and speaking style. By analyzing the nuances of my speech patterns, the AI creates a digital voice that sounds just like me.";
+const DEFAULT_WORKSPACE: ProjectWorkspace = {
+  mode: 'NARRATION',
+  appName: "MyApp",
+  featureName: "Tutorial",
+  narrationText: "Enter text here to generate speech...",
+  narrationVoice: VoiceName.Kore,
+  snippets: [],
+  characters: DEFAULT_CHARACTERS,
+  script: DEFAULT_SCRIPT,
+  cloningText: "Enter text to be spoken by the cloned voice...",
+  cloningReference: null,
+  maxChunkChars: DEFAULT_MAX_CHUNK_CHARS,
+  programSettings: DEFAULT_PROGRAM_SETTINGS,
+  lexicon: [],
+  dialogueSettings: DEFAULT_DIALOGUE_SETTINGS,
+  timeline: DEFAULT_TIMELINE,
+  loudness: DEFAULT_LOUDNESS_SETTINGS,
+  silence: DEFAULT_SILENCE_SETTINGS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+};
+
+// Chunk progress key for the master narration (sections use their own ids)
+const MASTER_CHUNK_KEY = 'master';
+
+// Debounce for writing the workspace to IndexedDB after an edit
+const AUTOSAVE_DELAY_MS = 1000;
 
-const formatFileName = (parts: (string | undefined)[]) => {
-  return parts
-      .filter(p => p && p.trim())
-      .map(p => p!.trim().replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-_]/g, ''))
-      .join('-');
-}
+const CALIBRATION_TEXT = "The quick brown fox jumps over the lazy dog. Voice cloning technology allows for creating realistic speech from just a short audio sample. I am reading this text to calibrate the system with my unique vocal tone, pacing, and speaking style. By analyzing the nuances of my speech patterns, the AI creates a digital voice that sounds just like me.";
 
 export default function App() {
-  const [mode, setMode] = useState<AppMode>('NARRATION');
+  const [mode, setMode] = useState<AppMode>(DEFAULT_WORKSPACE.mode);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [generatedAudio, setGeneratedAudio] = useState<GeneratedAudio | null>(null);
   const [lastGeneratedHash, setLastGeneratedHash] = useState<string>('');
 
+  // Speech backend (Gemini or the offline mock)
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
+  // Pronunciation fixes, applied by the provider wrapper right before each request
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(DEFAULT_WORKSPACE.lexicon);
+  const ttsProvider = withLexicon(getTtsProvider(providerId), lexicon);
+  const sttProvider = getSttProvider(providerId);
+
   // App Metadata for Naming
-  const [appName, setAppName] = useState("MyApp");
-  const [featureName, setFeatureName] = useState("Tutorial");
+  const [appName, setAppName] = useState(DEFAULT_WORKSPACE.appName);
+  const [featureName, setFeatureName] = useState(DEFAULT_WORKSPACE.featureName);
 
   // Narration State
-  const [narrationText, setNarrationText] = useState("Enter text here to generate speech...");
-  const [narrationVoice, setNarrationVoice] = useState<VoiceName>(VoiceName.Kore);
+  const [narrationText, setNarrationText] = useState(DEFAULT_WORKSPACE.narrationText);
+  const [narrationVoice, setNarrationVoice] = useState<VoiceName>(DEFAULT_WORKSPACE.narrationVoice);
+  const [maxChunkChars, setMaxChunkChars] = useState(DEFAULT_WORKSPACE.maxChunkChars);
+
+  // Per-target chunk state for long narration, keyed by MASTER_CHUNK_KEY or section/subsection id.
+  // Holds decoded audio, so it lives only in memory.
+  const [chunkProgress, setChunkProgress] = useState<Record<string, NarrationChunk[]>>({});
+  const chunkProgressRef = useRef<Record<string, NarrationChunk[]>>({});
   
   // Snippet/Section State
-  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [snippets, setSnippets] = useState<Snippet[]>(DEFAULT_WORKSPACE.snippets);
+  const [programSettings, setProgramSettings] = useState<ProgramSettings>(DEFAULT_WORKSPACE.programSettings);
+  const [timeline, setTimeline] = useState<Timeline>(DEFAULT_WORKSPACE.timeline);
+  const [loudness, setLoudness] = useState<LoudnessSettings>(DEFAULT_WORKSPACE.loudness);
+  const [silence, setSilence] = useState<SilenceSettings>(DEFAULT_WORKSPACE.silence);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_WORKSPACE.exportSettings);
+  // Latest snippets for work that outlives the render it started in (queued generations)
+  const snippetsRef = useRef(snippets);
+  snippetsRef.current = snippets;
+  // Likewise the settings a generation uses, read once when it starts
+  const generationSettingsRef = useRef({ ttsProvider, lexicon, maxChunkChars, silence, loudness });
+  generationSettingsRef.current = { ttsProvider, lexicon, maxChunkChars, silence, loudness };
+
+  // Batch Generation State
+  const [queueProgress, setQueueProgress] = useState<QueueProgress>(IDLE_QUEUE_PROGRESS);
+  const [queueConcurrency, setQueueConcurrency] = useState(DEFAULT_QUEUE_CONCURRENCY);
+  const queueRef = useRef<GenerationQueue | null>(null);
+  if (!queueRef.current) queueRef.current = createGenerationQueue(setQueueProgress);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
   // Dialogue State
-  const [characters, setCharacters] = useState<Character[]>(DEFAULT_CHARACTERS);
-  const [script, setScript] = useState<ScriptLine[]>(DEFAULT_SCRIPT);
+  const [characters, setCharacters] = useState<Character[]>(DEFAULT_WORKSPACE.characters);
+  const [script, setScript] = useState<ScriptLine[]>(DEFAULT_WORKSPACE.script);
+  const [dialogueSettings, setDialogueSettings] = useState<DialogueSettings>(DEFAULT_WORKSPACE.dialogueSettings);
+  const scriptRef = useRef(script);
+  scriptRef.current = script;
 
   // Cloning State
-  const [cloningText, setCloningText] = useState("Enter text to be spoken by the cloned voice...");
-  const [cloningReference, setCloningReference] = useState<{name: string, data: string, mimeType: string} | null>(null);
+  const [cloningText, setCloningText] = useState(DEFAULT_WORKSPACE.cloningText);
+  const [cloningReference, setCloningReference] = useState<UploadedAudio | null>(DEFAULT_WORKSPACE.cloningReference);
   
   // Transcription State
-  const [transcriptionFile, setTranscriptionFile] = useState<{name: string, data: string, mimeType: string} | null>(null);
+  const [transcriptionFile, setTranscriptionFile] = useState<UploadedAudio | null>(null);
   const [transcriptionResult, setTranscriptionResult] = useState<string>("");
 
   // Recording State
@@ -67,75 +146,333 @@ export default function App() {
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
 
+  // Project Persistence State
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const skipAutosaveRef = useRef(false);
+  const bootstrappedRef = useRef(false);
+
   const audioContextRef = useRef<AudioContext | null>(null);
 
+  const workspace: ProjectWorkspace = {
+    mode, appName, featureName, narrationText, narrationVoice,
+    snippets, characters, script, cloningText, cloningReference, maxChunkChars, programSettings, lexicon, dialogueSettings, timeline, loudness, silence, exportSettings
+  };
+
+  const applyWorkspace = (saved: ProjectWorkspace) => {
+    // Object URLs keep their blobs in memory until revoked, and the previous
+    // project's clips are no longer shown anywhere
+    [
+      ...snippetsRef.current.flatMap(s => [s.audio, ...s.subsections.map(sub => sub.audio)]),
+      ...scriptRef.current.map(line => line.audio),
+      generatedAudio,
+    ].forEach(audio => audio && URL.revokeObjectURL(audio.url));
+
+    // Projects saved before a setting existed simply get its default. A key
+    // that is present but undefined must not replace the default either.
+    const defined = Object.fromEntries(Object.entries(saved).filter(([, value]) => value !== undefined));
+    const ws: ProjectWorkspace = { ...DEFAULT_WORKSPACE, ...defined };
+    setMode(ws.mode);
+    setAppName(ws.appName);
+    setFeatureName(ws.featureName);
+    setNarrationText(ws.narrationText);
+    setNarrationVoice(ws.narrationVoice);
+    setSnippets(ws.snippets);
+    setCharacters(ws.characters);
+    setScript(ws.script);
+    setCloningText(ws.cloningText);
+    setCloningReference(ws.cloningReference);
+    setMaxChunkChars(ws.maxChunkChars);
+    setProgramSettings({
+      ...DEFAULT_PROGRAM_SETTINGS,
+      ...ws.programSettings,
+      music: { ...DEFAULT_PROGRAM_SETTINGS.music, ...ws.programSettings.music },
+    });
+    setLexicon(ws.lexicon);
+    setDialogueSettings({ ...DEFAULT_DIALOGUE_SETTINGS, ...ws.dialogueSettings });
+    setTimeline(ws.timeline);
+    setLoudness({ ...DEFAULT_LOUDNESS_SETTINGS, ...ws.loudness });
+    setSilence({ ...DEFAULT_SILENCE_SETTINGS, ...ws.silence });
+    setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...ws.exportSettings });
+    queueRef.current?.cancel();
+    chunkProgressRef.current = {};
+    setChunkProgress({});
+    setGeneratedAudio(null);
+    setLastGeneratedHash('');
+    setError(null);
+  };
+
+  const refreshProjects = async () => setProjects(await listProjects());
+
+  const openProject = async (id: string) => {
+    const ws = await loadProject(id);
+    if (!ws) throw new Error("Project could not be found.");
+    // Loading the workspace changes every field; that must not count as an edit
+    skipAutosaveRef.current = true;
+    applyWorkspace(ws);
+    setProjectId(id);
+    setLastProjectId(id);
+    setSaveStatus('saved');
+  };
+
+  // Writes pending edits immediately, before the autosave debounce is discarded
+  const flushSave = async () => {
+    if (projectId) await saveProject(projectId, workspace);
+  };
+
+  // Restore the last opened project on startup (or create a first one)
+  useEffect(() => {
+    if (bootstrappedRef.current) return;
+    bootstrappedRef.current = true;
+
+    (async () => {
+      try {
+        let list = await listProjects();
+        let id = getLastProjectId();
+        if (!id || !list.some(p => p.id === id)) id = list[0]?.id ?? null;
+        if (!id) {
+          const created = await createProject('Untitled Project', DEFAULT_WORKSPACE);
+          list = [created];
+          id = created.id;
+        }
+        setProjects(list);
+        await openProject(id);
+      } catch (err: any) {
+        console.error("Failed to restore project", err);
+        setError("Saved projects could not be loaded. Changes in this session will not be saved.");
+      }
+    })();
+  }, []);
+
+  // Autosave
+  useEffect(() => {
+    if (!projectId) return;
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    setSaveStatus('saving');
+    const timer = window.setTimeout(() => {
+      saveProject(projectId, workspace)
+        .then(() => {
+          setSaveStatus('saved');
+          return refreshProjects();
+        })
+        .catch(err => {
+          console.error("Autosave failed", err);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, mode, appName, featureName, narrationText, narrationVoice, snippets, characters, script, cloningText, cloningReference, maxChunkChars, programSettings, lexicon, dialogueSettings, timeline, loudness, silence, exportSettings]);
+
+  const runProjectAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "Project operation failed.");
+    }
+  };
+
+  const handleOpenProject = (id: string) => runProjectAction(async () => {
+    if (id === projectId) return;
+    await flushSave();
+    await openProject(id);
+    await refreshProjects();
+  });
+
+  const handleCreateProject = () => runProjectAction(async () => {
+    await flushSave();
+    const created = await createProject(`Untitled Project ${projects.length + 1}`, DEFAULT_WORKSPACE);
+    await openProject(created.id);
+    await refreshProjects();
+  });
+
+  const handleDuplicateProject = (id: string) => runProjectAction(async () => {
+    // Duplicate what's on screen, not what was last autosaved
+    if (id === projectId) await flushSave();
+    await duplicateProject(id);
+    await refreshProjects();
+  });
+
+  const handleRenameProject = (id: string, name: string) => runProjectAction(async () => {
+    await renameProject(id, name);
+    await refreshProjects();
+  });
+
+  const handleExportProject = () => runProjectAction(async () => {
+    const name = projects.find(p => p.id === projectId)?.name || 'Project';
+    const bundle = await exportProjectBundle(name, workspace);
+    downloadBlob(bundle, `${formatFileName([name]) || 'Project'}.project.zip`);
+  });
+
+  const handleImportProject = (file: File) => runProjectAction(async () => {
+    const imported = await importProjectBundle(file);
+    await flushSave();
+    const created = await createProject(imported.name, imported.workspace);
+    await openProject(created.id);
+    await refreshProjects();
+  });
+
+  const handleDeleteProject = (id: string) => runProjectAction(async () => {
+    await deleteProject(id);
+    const remaining = await listProjects();
+    if (id === projectId) {
+      const next = remaining[0] ?? await createProject('Untitled Project', DEFAULT_WORKSPACE);
+      await openProject(next.id);
+    }
+    await refreshProjects();
+  });
+
   // Helper to ensure AudioContext is ready
   const getAudioContext = () => {
     if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: TTS_SAMPLE_RATE });
     }
     return audioContextRef.current;
   };
 
   // Content Hashing to detect stale state
+  // The lexicon's respelling counts wherever it changes what is spoken
   const getContentHash = () => {
-    if (mode === 'NARRATION') return JSON.stringify({ text: narrationText, voice: narrationVoice });
-    if (mode === 'DIALOGUE') return JSON.stringify({ script, characters });
-    if (mode === 'CLONING') return JSON.stringify({ text: cloningText, ref: cloningReference?.name });
+    if (mode === 'NARRATION') return JSON.stringify({ text: narrationText, voice: narrationVoice, spoken: getRespelling(narrationText, lexicon) });
+    // Per-line audio and status are output, not input
+    if (mode === 'DIALOGUE') return JSON.stringify({
+      script: script.map(({ id, characterId, text, direction }) => ({ id, characterId, text, direction, spoken: getRespelling(text, lexicon) })),
+      characters,
+      dialogueSettings
+    });
+    if (mode === 'CLONING') return JSON.stringify({ text: cloningText, ref: cloningReference?.name, spoken: getRespelling(cloningText, lexicon) });
     // Transcription doesn't use the audio player in the same way, so hash is less relevant for the main generate button
     return '';
   };
 
   const currentContentHash = getContentHash();
+
+  // What the lexicon preview shows for the current mode
+  const getLexiconPreviewText = () => {
+    if (mode === 'DIALOGUE') return script.map(line => line.text).join('\n');
+    if (mode === 'CLONING') return cloningText;
+    return narrationText;
+  };
   const isStale = !!generatedAudio && currentContentHash !== lastGeneratedHash && mode !== 'TRANSCRIPTION';
 
-  const handleGenerate = async () => {
+  // What the master output speaks, as shown in read-along and written to tags
+  const getMasterText = () => {
+    // Lines are separated like paragraphs so each one is its own sentence
+    if (mode === 'DIALOGUE') return script.map(line => line.text).join('\n\n');
+    return mode === 'CLONING' ? cloningText : narrationText;
+  };
+
+  // Tags for the master output's exported WAV
+  const getMasterMetadata = (): ClipMetadata => ({
+    title: featureName.trim() || (mode === 'CLONING' ? 'Clone' : 'Master'),
+    voice: mode === 'DIALOGUE'
+      ? [...new Set(characters.map(c => c.voice))].join(', ')
+      : mode === 'CLONING' ? 'Cloned voice' : narrationVoice,
+    appName,
+    featureName,
+    text: getMasterText(),
+  });
+
+  // Generates narration in chunks and stitches them into a single buffer, with
+  // its silence trimmed. With resume, chunks that already succeeded for this key are kept.
+  const synthesizeNarration = async (key: string, text: string, voice: VoiceName, direction: string, padding: ClipPadding | undefined, resume = false, signal?: AbortSignal): Promise<AudioBuffer> => {
+    const { ttsProvider, maxChunkChars, silence } = generationSettingsRef.current;
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') {
+      await ctx.resume();
+    }
+
+    const setChunks = (chunks: NarrationChunk[]) => {
+      chunkProgressRef.current = { ...chunkProgressRef.current, [key]: chunks };
+      setChunkProgress(chunkProgressRef.current);
+    };
+
+    const chunks = planChunks(text, voice, direction.trim(), maxChunkChars, resume ? chunkProgressRef.current[key] : undefined);
+    setChunks(chunks);
+    const buffers = await generateChunks(chunks, async chunk => {
+      const base64Audio = await ttsProvider.generateSingleVoice({ text: chunk.text, voice: chunk.voice, direction: chunk.direction, signal });
+      return decodeAudioData(base64Audio, ctx);
+    }, setChunks, signal);
+    return assembleChunks(chunks, buffers, ctx, speech => applySilenceSettings(speech, silence, padding, ctx));
+  };
+
+  const handleGenerate = async (resume = false) => {
     setLoading(true);
     setError(null);
     setGeneratedAudio(null);
 
     try {
-      let base64Audio = '';
-      if (mode === 'NARRATION') {
-        if (!narrationText.trim()) throw new Error("Please enter some text.");
-        base64Audio = await generateSingleVoice({ text: narrationText, voice: narrationVoice });
-      } else if (mode === 'DIALOGUE') {
-        if (script.length === 0) throw new Error("Script cannot be empty.");
-        base64Audio = await generateDialogue({ script, characters });
-      } else if (mode === 'CLONING') {
-        if (!cloningText.trim()) throw new Error("Please enter text for the cloned voice.");
-        if (!cloningReference) throw new Error("Please upload a reference audio file.");
-        base64Audio = await generateClonedSpeech({ 
-            text: cloningText, 
-            referenceAudio: cloningReference.data,
-            mimeType: cloningReference.mimeType
-        });
-      } else if (mode === 'TRANSCRIPTION') {
+      if (mode === 'TRANSCRIPTION') {
         if (!transcriptionFile) throw new Error("Please upload an audio file to transcribe.");
-        const text = await transcribeAudio(transcriptionFile.data, transcriptionFile.mimeType);
+        const text = await sttProvider.transcribeAudio(transcriptionFile.data, transcriptionFile.mimeType);
         setTranscriptionResult(text);
         setLoading(false);
         return; // Transcription handles its own result state, not the audio player
       }
 
-      const ctx = getAudioContext();
-      if (ctx.state === 'suspended') {
-        await ctx.resume();
+      let audioBuffer: AudioBuffer;
+      if (mode === 'NARRATION') {
+        if (!narrationText.trim()) throw new Error("Please enter some text.");
+        audioBuffer = await synthesizeNarration(MASTER_CHUNK_KEY, narrationText, narrationVoice, '', undefined, resume);
+      } else if (mode === 'DIALOGUE') {
+        if (script.length === 0) throw new Error("Script cannot be empty.");
+        const ctx = getAudioContext();
+        if (ctx.state === 'suspended') {
+          await ctx.resume();
+        }
+        if (dialogueSettings.renderMode === 'perLine') {
+          // Only lines without a current take are generated; the rest are reused
+          const lines: ScriptLine[] = [];
+          for (const line of script) {
+            if (!line.text.trim()) continue;
+            lines.push(lineNeedsGeneration(line, characters, lexicon) ? { ...line, audio: await generateScriptLine(line.id) } : line);
+          }
+          const failed = lines.filter(l => !l.audio).length;
+          if (failed > 0) {
+            throw new Error(`${failed} of ${lines.length} lines failed. Fix or regenerate them, then generate again; the other lines are kept.`);
+          }
+          audioBuffer = await assembleDialogueLines(lines, dialogueSettings.lineGapSeconds, ctx);
+        } else {
+          audioBuffer = await generateDialogueTrack(ttsProvider, script, characters, ctx);
+        }
+      } else {
+        let base64Audio = '';
+        if (mode === 'CLONING') {
+          if (!cloningText.trim()) throw new Error("Please enter text for the cloned voice.");
+          if (!cloningReference) throw new Error("Please upload a reference audio file.");
+          base64Audio = await ttsProvider.generateClonedSpeech({ 
+              text: cloningText, 
+              referenceAudio: cloningReference.data,
+              mimeType: cloningReference.mimeType
+          });
+        }
+
+        const ctx = getAudioContext();
+        if (ctx.state === 'suspended') {
+          await ctx.resume();
+        }
+        audioBuffer = await decodeAudioData(base64Audio, ctx);
       }
 
-      const audioBuffer = await decodeAudioData(base64Audio, ctx);
+      // Narration was trimmed before its leading and trailing pause markup went back on
+      if (mode !== 'NARRATION') audioBuffer = applySilenceSettings(audioBuffer, silence, undefined, getAudioContext());
+      audioBuffer = normalizeGeneratedAudio(audioBuffer, loudness, getAudioContext());
       const wavBlob = bufferToWavBlob(audioBuffer);
       const url = URL.createObjectURL(wavBlob);
 
       setGeneratedAudio({
         blob: wavBlob,
         url,
-        duration: audioBuffer.duration
+        duration: audioBuffer.duration,
+        alignment: alignWords(audioBuffer, getMasterText())
       });
       setLastGeneratedHash(currentContentHash);
 
     } catch (err: any) {
-      setError(err.message || "An error occurred during generation.");
+      setError(describeError(err));
     } finally {
       setLoading(false);
     }
@@ -264,69 +601,119 @@ export default function App() {
   };
 
   const removeSnippet = (id: string) => {
-    setSnippets(snippets.filter(s => s.id !== id));
+    setSnippets(prev => prev.filter(s => s.id !== id));
   };
 
   const updateSnippet = (updatedSnippet: Snippet) => {
-    setSnippets(snippets.map(s => s.id === updatedSnippet.id ? updatedSnippet : s));
+    setSnippets(prev => prev.map(s => s.id === updatedSnippet.id ? updatedSnippet : s));
   };
 
-  const processGeneration = async (text: string, voice: VoiceName): Promise<GeneratedAudio> => {
-     const base64Audio = await generateSingleVoice({ text, voice });
-     const ctx = getAudioContext();
-     if (ctx.state === 'suspended') {
-         await ctx.resume();
-     }
+  // Functional updates only: generations finish in any order and must not overwrite each other
+  const patchSnippet = (id: string, patch: (s: Snippet) => Partial<Snippet>) => {
+    setSnippets(prev => prev.map(s => s.id === id ? { ...s, ...patch(s) } : s));
+  };
+
+  const patchSubsection = (sectionId: string, subsectionId: string, patch: (sub: Subsection) => Partial<Subsection>) => {
+    setSnippets(prev => prev.map(s =>
+        s.id === sectionId
+            ? { ...s, subsections: s.subsections.map(sub => sub.id === subsectionId ? { ...sub, ...patch(sub) } : sub) }
+            : s
+    ));
+  };
+
+  // A cancelled generation leaves the previous audio (if any) in place
+  const revertStatus = (item: Snippet | Subsection) => ({ status: item.audio ? 'success' as const : 'idle' as const, error: null });
 
-     const audioBuffer = await decodeAudioData(base64Audio, ctx);
+  const processGeneration = async (key: string, text: string, voice: VoiceName, direction: string, padding: ClipPadding | undefined, resume = false, signal?: AbortSignal): Promise<GeneratedAudio> => {
+     const { loudness } = generationSettingsRef.current;
+     const ctx = getAudioContext();
+     const trimmed = await synthesizeNarration(key, text, voice, direction, padding, resume, signal);
+     const audioBuffer = normalizeGeneratedAudio(trimmed, loudness, ctx);
      const wavBlob = bufferToWavBlob(audioBuffer);
      const url = URL.createObjectURL(wavBlob);
-     return { blob: wavBlob, url, duration: audioBuffer.duration };
+     return { blob: wavBlob, url, duration: audioBuffer.duration, alignment: alignWords(audioBuffer, text) };
   };
 
-  const generateSnippet = async (id: string) => {
-    const snippet = snippets.find(s => s.id === id);
-    if (!snippet) return;
+  // Resolves true when new audio was stored
+  const generateSnippet = async (id: string, resume = false, signal?: AbortSignal): Promise<boolean> => {
+    const snippet = snippetsRef.current.find(s => s.id === id);
+    if (!snippet) return false;
+    const { lexicon } = generationSettingsRef.current;
 
-    setSnippets(prev => prev.map(s => s.id === id ? { ...s, status: 'generating', error: null } : s));
+    patchSnippet(id, () => ({ status: 'generating', error: null }));
 
     try {
-        const audio = await processGeneration(snippet.text, snippet.voice);
-        setSnippets(prev => prev.map(s => s.id === id ? { ...s, status: 'success', audio } : s));
+        const audio = await processGeneration(id, snippet.text, snippet.voice, snippet.direction || '', snippet.padding, resume, signal);
+        if (signal?.aborted) {
+            patchSnippet(id, revertStatus);
+            return false;
+        }
+        patchSnippet(id, () => ({ status: 'success', audio, generatedFrom: getGenerationKey(snippet, lexicon) }));
+        return true;
     } catch (err: any) {
-        setSnippets(prev => prev.map(s => s.id === id ? { ...s, status: 'error', error: err.message } : s));
+        patchSnippet(id, s => signal?.aborted ? revertStatus(s) : { status: 'error', error: describeError(err) });
+        return false;
     }
   };
 
-  const generateSubsection = async (sectionId: string, subsectionId: string) => {
-    const snippet = snippets.find(s => s.id === sectionId);
-    if (!snippet) return;
+  const generateSubsection = async (sectionId: string, subsectionId: string, resume = false, signal?: AbortSignal): Promise<boolean> => {
+    const snippet = snippetsRef.current.find(s => s.id === sectionId);
+    if (!snippet) return false;
     const sub = snippet.subsections.find(sub => sub.id === subsectionId);
-    if (!sub) return;
+    if (!sub) return false;
+    const { lexicon } = generationSettingsRef.current;
 
     // Update status to generating
-    setSnippets(prev => prev.map(s => 
-        s.id === sectionId 
-            ? { ...s, subsections: s.subsections.map(sub => sub.id === subsectionId ? { ...sub, status: 'generating', error: null } : sub) } 
-            : s
-    ));
+    patchSubsection(sectionId, subsectionId, () => ({ status: 'generating', error: null }));
 
     try {
-        const audio = await processGeneration(sub.text, sub.voice);
-        setSnippets(prev => prev.map(s => 
-            s.id === sectionId 
-                ? { ...s, subsections: s.subsections.map(sub => sub.id === subsectionId ? { ...sub, status: 'success', audio } : sub) } 
-                : s
-        ));
+        const audio = await processGeneration(subsectionId, sub.text, sub.voice, sub.direction || '', sub.padding, resume, signal);
+        if (signal?.aborted) {
+            patchSubsection(sectionId, subsectionId, revertStatus);
+            return false;
+        }
+        patchSubsection(sectionId, subsectionId, () => ({ status: 'success', audio, generatedFrom: getGenerationKey(sub, lexicon) }));
+        return true;
     } catch (err: any) {
-        setSnippets(prev => prev.map(s => 
-            s.id === sectionId 
-                ? { ...s, subsections: s.subsections.map(sub => sub.id === subsectionId ? { ...sub, status: 'error', error: err.message } : sub) } 
-                : s
-        ));
+        patchSubsection(sectionId, subsectionId, s => signal?.aborted ? revertStatus(s) : { status: 'error', error: describeError(err) });
+        return false;
     }
   };
 
+  // Batch generation
+  const generateAll = () => {
+    const tasks: QueueTask[] = [];
+    for (const snippet of snippets) {
+      if (needsGeneration(snippet, lexicon) && !queueRef.current.has(snippet.id)) {
+        tasks.push({ id: snippet.id, run: signal => runQueuedSnippet(snippet.id, signal) });
+      }
+      for (const sub of snippet.subsections) {
+        if (needsGeneration(sub, lexicon) && !queueRef.current.has(sub.id)) {
+          tasks.push({ id: sub.id, run: signal => runQueuedSubsection(snippet.id, sub.id, signal) });
+        }
+      }
+    }
+    queueRef.current.enqueue(tasks);
+  };
+
+  const changeQueueConcurrency = (limit: number) => {
+    setQueueConcurrency(limit);
+    queueRef.current?.setConcurrency(limit);
+  };
+
+  // Queued items may have been generated by hand or deleted while they waited
+  const runQueuedSnippet = async (id: string, signal: AbortSignal) => {
+    const snippet = snippetsRef.current.find(s => s.id === id);
+    if (!snippet || !needsGeneration(snippet, generationSettingsRef.current.lexicon)) return true;
+    return generateSnippet(id, false, signal);
+  };
+
+  const runQueuedSubsection = async (sectionId: string, subsectionId: string, signal: AbortSignal) => {
+    const sub = snippetsRef.current.find(s => s.id === sectionId)?.subsections.find(sub => sub.id === subsectionId);
+    if (!sub || !needsGeneration(sub, generationSettingsRef.current.lexicon)) return true;
+    return generateSubsection(sectionId, subsectionId, false, signal);
+  };
+
   // Dialogue Editors
   const updateCharacterName = (id: string, name: string) => {
     setCharacters(prev => prev.map(c => c.id === id ? { ...c, name } : c));
@@ -351,10 +738,35 @@ export default function App() {
     setScript(prev => prev.filter(l => l.id !== id));
   };
 
-  const updateScriptLine = (id: string, field: 'characterId' | 'text', value: string) => {
+  const updateScriptLine = (id: string, field: 'characterId' | 'text' | 'direction', value: string) => {
     setScript(prev => prev.map(l => l.id === id ? { ...l, [field]: value } : l));
   };
 
+  const patchScriptLine = (id: string, patch: Partial<ScriptLine>) => {
+    setScript(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  // Generates one script line on its own with its character's voice.
+  // Resolves to the new audio, or null when generation failed.
+  const generateScriptLine = async (id: string): Promise<GeneratedAudio | null> => {
+    const line = scriptRef.current.find(l => l.id === id);
+    if (!line) return null;
+    const character = characters.find(c => c.id === line.characterId);
+    const { lexicon } = generationSettingsRef.current;
+
+    patchScriptLine(id, { status: 'generating', error: null });
+    try {
+        if (!character) throw new Error("This line's speaker is no longer in the cast.");
+        if (!line.text.trim()) throw new Error("This line has no text.");
+        const audio = await processGeneration(id, line.text, character.voice, line.direction || '', line.padding);
+        patchScriptLine(id, { status: 'success', audio, error: null, generatedFrom: getLineGenerationKey(line, character, lexicon) });
+        return audio;
+    } catch (err: any) {
+        patchScriptLine(id, { status: 'error', error: describeError(err) });
+        return null;
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
       <div className="max-w-7xl mx-auto space-y-8">
@@ -373,42 +785,67 @@ export default function App() {
             </div>
           </div>
 
-          <div className="flex bg-slate-800 p-1 rounded-lg">
-            <button
-              onClick={() => { setMode('NARRATION'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                mode === 'NARRATION' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
-              }`}
-            >
-              Narration
-            </button>
-            <button
-              onClick={() => { setMode('DIALOGUE'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                mode === 'DIALOGUE' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
-              }`}
-            >
-              Dialogue
-            </button>
-             <button
-              onClick={() => { setMode('CLONING'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                mode === 'CLONING' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
-              }`}
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <select
+              value={providerId}
+              onChange={(e) => { setProviderId(e.target.value as ProviderId); setLastGeneratedHash(''); }}
+              className="bg-slate-800 border border-slate-700 text-slate-300 text-xs font-medium rounded-lg px-3 py-2.5 outline-none focus:border-indigo-500"
+              title="Speech provider"
             >
-              Voice Cloning
-            </button>
-            <button
-              onClick={() => { setMode('TRANSCRIPTION'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                mode === 'TRANSCRIPTION' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
-              }`}
-            >
-              Transcription
-            </button>
+              {PROVIDER_OPTIONS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            <div className="flex bg-slate-800 p-1 rounded-lg">
+              <button
+                onClick={() => { setMode('NARRATION'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                  mode === 'NARRATION' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                Narration
+              </button>
+              <button
+                onClick={() => { setMode('DIALOGUE'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                  mode === 'DIALOGUE' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                Dialogue
+              </button>
+               <button
+                onClick={() => { setMode('CLONING'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                  mode === 'CLONING' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                Voice Cloning
+              </button>
+              <button
+                onClick={() => { setMode('TRANSCRIPTION'); setGeneratedAudio(null); setError(null); setLastGeneratedHash(''); }}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                  mode === 'TRANSCRIPTION' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                Transcription
+              </button>
+            </div>
           </div>
         </header>
 
+        <ProjectManager
+            projects={projects}
+            currentProjectId={projectId}
+            saveStatus={saveStatus}
+            onOpen={handleOpenProject}
+            onCreate={handleCreateProject}
+            onDuplicate={handleDuplicateProject}
+            onRename={handleRenameProject}
+            onDelete={handleDeleteProject}
+            onExport={handleExportProject}
+            onImport={handleImportProject}
+        />
+
         {/* Global Metadata Inputs (Only for Narration/Snippets) */}
         {mode === 'NARRATION' && (
              <div className="grid grid-cols-2 gap-4 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
@@ -481,8 +918,24 @@ export default function App() {
                     className="w-full bg-slate-900 border border-slate-700 rounded-lg p-4 text-slate-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none transition-all resize-y min-h-[500px] leading-relaxed font-light shadow-inner"
                     placeholder="Paste your long-form text here. Highlight sections to create individual audio sections (snippets)..."
                   />
-                  <div className="mt-2 text-right text-xs text-slate-500">
-                    {narrationText.length} chars
+                  <div className="mt-2 flex justify-between items-center text-xs text-slate-500">
+                    <label className="flex items-center gap-2" title="Longer text is split at paragraph and sentence boundaries and generated in chunks">
+                      Max chunk size
+                      <input
+                        type="number"
+                        min={200}
+                        step={100}
+                        value={maxChunkChars}
+                        onChange={(e) => setMaxChunkChars(Number(e.target.value))}
+                        onBlur={() => setMaxChunkChars(Math.max(200, maxChunkChars || DEFAULT_MAX_CHUNK_CHARS))}
+                        className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-300 focus:border-indigo-500 outline-none"
+                      />
+                      chars
+                    </label>
+                    <span title="Markers are not spoken; exact silence is inserted in their place">
+                      Pauses: <code className="text-slate-400">[pause 750ms]</code> <code className="text-slate-400">[break]</code>
+                    </span>
+                    <span>{narrationText.length} chars</span>
                   </div>
                 </div>
 
@@ -505,7 +958,10 @@ export default function App() {
                                     onDelete={removeSnippet}
                                     onGenerateSection={generateSnippet}
                                     onGenerateSubsection={generateSubsection}
+                                    chunkProgress={chunkProgress}
                                     generateFileName={formatFileName}
+                                    silence={silence}
+                                    exportSettings={exportSettings}
                                 />
                             ))}
                         </div>
@@ -570,9 +1026,53 @@ export default function App() {
                 {/* Script Section */}
                 <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
                   <h2 className="text-lg font-semibold mb-4 text-slate-200">2. The Script</h2>
+                  <ScriptTransfer
+                    key={projectId ?? undefined}
+                    characters={characters}
+                    script={script}
+                    onImport={(result) => {
+                      setCharacters(result.characters);
+                      setScript(result.script);
+                    }}
+                    fileName={formatFileName([appName, featureName])}
+                  />
+                  <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-slate-400">
+                    <label className="flex items-center gap-2">
+                      Render
+                      <select
+                        value={dialogueSettings.renderMode}
+                        onChange={(e) => setDialogueSettings({ ...dialogueSettings, renderMode: e.target.value as DialogueSettings['renderMode'] })}
+                        className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                      >
+                        <option value="combined">Whole script at once</option>
+                        <option value="perLine">Line by line</option>
+                      </select>
+                    </label>
+                    {dialogueSettings.renderMode === 'perLine' && (
+                      <label className="flex items-center gap-2" title="Silence inserted between line clips when assembling the dialogue">
+                        Gap between lines
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={dialogueSettings.lineGapSeconds}
+                          onChange={(e) => setDialogueSettings({ ...dialogueSettings, lineGapSeconds: Math.max(0, Number(e.target.value)) })}
+                          className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-300 focus:border-indigo-500 outline-none"
+                        />
+                        s
+                      </label>
+                    )}
+                  </div>
                   <div className="space-y-4">
                     {script.map((line, index) => (
-                      <div key={line.id} className="flex gap-4 group">
+                      <React.Fragment key={line.id}>
+                      {line.scene && (
+                        <div className="flex items-center gap-3 pt-2">
+                          <span className="text-[10px] font-mono font-bold uppercase tracking-widest text-slate-500">{line.scene}</span>
+                          <div className="h-px bg-slate-700 flex-grow"></div>
+                        </div>
+                      )}
+                      <div className="flex gap-4 group">
                         <div className="flex-shrink-0 pt-2 text-xs text-slate-600 font-mono w-6 text-right">
                           {index + 1}
                         </div>
@@ -587,6 +1087,14 @@ export default function App() {
                                  <option key={c.id} value={c.id}>{c.name}</option>
                                ))}
                              </select>
+                             <input
+                                type="text"
+                                value={line.direction || ''}
+                                onChange={(e) => updateScriptLine(line.id, 'direction', e.target.value)}
+                                placeholder="Direction (e.g. excited, whispering)"
+                                title="How the line should be delivered. Not spoken."
+                                className="flex-grow bg-transparent border-b border-slate-700 text-xs italic text-slate-400 focus:border-indigo-500 outline-none px-1 py-1 placeholder-slate-600"
+                             />
                            </div>
                            <textarea
                              value={line.text}
@@ -595,6 +1103,51 @@ export default function App() {
                              className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-200 focus:border-indigo-500 outline-none text-sm"
                              placeholder="Dialogue line..."
                            />
+                           {dialogueSettings.renderMode === 'perLine' && (
+                             <div className="flex items-center gap-3">
+                               <div className="flex-grow min-w-0">
+                                 {line.status === 'error' && <span className="text-[10px] text-red-400 block mb-1">Error: {line.error}</span>}
+                                 {line.audio ? (
+                                   <AudioPlayer
+                                     audio={line.audio}
+                                     isGenerating={line.status === 'generating'}
+                                     layout="row"
+                                     fileName={formatFileName([appName, featureName, `Line-${index + 1}`])}
+                                     exportSettings={exportSettings}
+                                     metadata={{
+                                       title: `Line ${index + 1}`,
+                                       voice: characters.find(c => c.id === line.characterId)?.voice,
+                                       appName,
+                                       featureName,
+                                       text: line.text,
+                                     }}
+                                   />
+                                 ) : (
+                                   <span className="text-xs text-slate-500 italic">{line.status === 'generating' ? 'Generating...' : 'No take yet'}</span>
+                                 )}
+                                 {chunkProgress[line.id] && (
+                                   <div className="mt-2">
+                                     <ChunkProgress chunks={chunkProgress[line.id]} />
+                                   </div>
+                                 )}
+                               </div>
+                               <PaddingOverride
+                                 padding={line.padding}
+                                 silence={silence}
+                                 onChange={(padding) => patchScriptLine(line.id, { padding })}
+                               />
+                               {isStaleLine(line, characters, lexicon) && (
+                                 <span className="text-[10px] text-amber-500" title="Text, voice or direction changed since this take was generated">edited</span>
+                               )}
+                               <button
+                                 onClick={() => generateScriptLine(line.id)}
+                                 disabled={line.status === 'generating' || loading}
+                                 className="flex-shrink-0 text-xs text-slate-400 hover:text-indigo-400 disabled:opacity-50 hover:underline whitespace-nowrap"
+                               >
+                                 {line.audio ? 'Regenerate line' : 'Generate line'}
+                               </button>
+                             </div>
+                           )}
                         </div>
                         <div className="flex-shrink-0 pt-8 opacity-0 group-hover:opacity-100 transition-opacity">
                            <button onClick={() => removeScriptLine(line.id)} className="text-slate-600 hover:text-red-400">
@@ -604,6 +1157,7 @@ export default function App() {
                            </button>
                         </div>
                       </div>
+                      </React.Fragment>
                     ))}
                     
                     <button 
@@ -850,13 +1404,27 @@ export default function App() {
                     </div>
                 </div>
             )}
+
+            {/* Timeline: arranges generated and imported clips across tracks */}
+            {(mode === 'NARRATION' || mode === 'DIALOGUE') && (
+                <TimelineEditor
+                    timeline={timeline}
+                    onChange={setTimeline}
+                    snippets={snippets}
+                    script={script}
+                    characters={characters}
+                    fileName={formatFileName([appName, featureName, 'Mix'])}
+                    exportSettings={exportSettings}
+                    metadata={{ title: 'Mix', appName, featureName }}
+                />
+            )}
           </div>
 
           {/* Right Column: Actions & Preview */}
           <div className="space-y-6">
             <div className="sticky top-6">
               <button
-                onClick={handleGenerate}
+                onClick={() => handleGenerate()}
                 disabled={loading || (mode === 'CLONING' && !cloningReference) || (mode === 'TRANSCRIPTION' && !transcriptionFile)}
                 className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white font-bold py-4 px-6 rounded-xl shadow-lg shadow-indigo-500/20 transform transition-all hover:-translate-y-0.5 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:translate-y-0 flex items-center justify-center space-x-2"
               >
@@ -893,9 +1461,16 @@ export default function App() {
                         audio={generatedAudio} 
                         isGenerating={loading} 
                         isStale={isStale}
-                        onGenerate={handleGenerate}
+                        onGenerate={() => handleGenerate()}
                         fileName={formatFileName([appName, featureName, mode === 'CLONING' ? 'Clone' : 'Master'])}
+                        exportSettings={exportSettings}
+                        metadata={getMasterMetadata()}
                      />
+                     {mode === 'NARRATION' && chunkProgress[MASTER_CHUNK_KEY] && (
+                        <div className="mt-3">
+                            <ChunkProgress chunks={chunkProgress[MASTER_CHUNK_KEY]} onRetry={() => handleGenerate(true)} />
+                        </div>
+                     )}
                   </div>
               )}
 
@@ -908,7 +1483,59 @@ export default function App() {
                         featureName={featureName}
                         onGenerateSection={generateSnippet}
                         onGenerateSubsection={generateSubsection}
+                        queueProgress={queueProgress}
+                        queueConcurrency={queueConcurrency}
+                        onQueueConcurrencyChange={changeQueueConcurrency}
+                        onGenerateAll={generateAll}
+                        onPauseQueue={() => queueRef.current?.pause()}
+                        onResumeQueue={() => queueRef.current?.resume()}
+                        onCancelQueue={() => queueRef.current?.cancel()}
+                        loudness={loudness}
+                        exportSettings={exportSettings}
+                        lexicon={lexicon}
                     />
+                    {snippets.length > 0 && (
+                        <div className="mt-8">
+                            <ProgramRenderPanel
+                                snippets={snippets}
+                                settings={programSettings}
+                                onSettingsChange={setProgramSettings}
+                                loudness={loudness}
+                                fileName={formatFileName([appName, featureName, 'Program'])}
+                                exportSettings={exportSettings}
+                                metadata={{ title: featureName.trim() || 'Program', appName, featureName }}
+                            />
+                        </div>
+                    )}
+                 </div>
+              )}
+
+              {mode !== 'TRANSCRIPTION' && (
+                 <div className="mt-8">
+                    <LexiconPanel
+                        entries={lexicon}
+                        onChange={setLexicon}
+                        previewText={getLexiconPreviewText()}
+                        fileName={formatFileName([appName, featureName])}
+                    />
+                 </div>
+              )}
+
+              {mode !== 'TRANSCRIPTION' && (
+                 <div className="mt-8">
+                    <LoudnessPanel settings={loudness} onChange={setLoudness} audio={generatedAudio} />
+                 </div>
+              )}
+
+              {mode !== 'TRANSCRIPTION' && (
+                 <div className="mt-8">
+                    <SilencePanel settings={silence} onChange={setSilence} />
+                 </div>
+              )}
+
+              {mode !== 'TRANSCRIPTION' && (
+                 <div className="mt-8">
+                    <ExportPanel settings={exportSettings} onChange={setExportSettings} />
                  </div>
               )}
 
@@ -1,5 +1,13 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GeneratedAudio } from '../types';
+import { AlignedWord, ClipMetadata, ExportSettings, GeneratedAudio } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, exportAudio, withExportExtension } from '../services/audioExport';
+import { alignWords } from '../services/alignment';
+import { WaveformPeaks, loadPeaks } from '../services/waveform';
+import { describeError } from '../services/ttsErrors';
+import { TTS_SAMPLE_RATE, decodeAudioFile } from '../utils/audioUtils';
+import { downloadBlob } from '../utils/fileUtils';
+import { ReadAlong } from './ReadAlong';
+import { Waveform, WaveformSelection } from './Waveform';
 
 interface AudioPlayerProps {
   audio: GeneratedAudio | null;
@@ -7,20 +15,42 @@ interface AudioPlayerProps {
   isStale?: boolean;
   layout?: 'card' | 'row' | 'tiny';
   fileName?: string;
+  exportSettings?: ExportSettings;
+  // Tags and markers for exported WAV files; its text also drives read-along
+  // for audio generated before word alignment was stored
+  metadata?: ClipMetadata;
   onGenerate?: () => void;
 }
 
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const formatPreciseTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({ 
     audio, 
     isGenerating, 
     isStale,
     layout = 'card', 
     fileName,
+    exportSettings = DEFAULT_EXPORT_SETTINGS,
+    metadata,
     onGenerate 
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showReadAlong, setShowReadAlong] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [estimatedWords, setEstimatedWords] = useState<AlignedWord[] | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [selection, setSelection] = useState<WaveformSelection | null>(null);
+  const [loop, setLoop] = useState(true);
+
+  const words = audio?.alignment ?? estimatedWords;
+  const canReadAlong = !!audio && (!!audio.alignment?.length || !!metadata?.text?.trim());
 
   // Auto-play logic: Track if we were just generating
   const wasGeneratingRef = useRef(false);
@@ -46,11 +76,58 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
       // If not auto-playing via the logic above, reset state
       if (!wasGeneratingRef.current) {
           setIsPlaying(false);
-          setProgress(0);
+          setCurrentTime(0);
       }
+      setSelection(null);
+      setExportError(null);
     }
   }, [audio]);
 
+  useEffect(() => {
+    setPeaks(null);
+    if (!audio) return;
+    let cancelled = false;
+    loadPeaks(audio.blob)
+        .then(result => {
+            if (!cancelled) setPeaks(result);
+        })
+        .catch(() => {});
+    return () => { cancelled = true; };
+  }, [audio?.blob]);
+
+  // Older audio has no stored alignment, so it is estimated from the text when first shown
+  useEffect(() => {
+    setEstimatedWords(null);
+    if (!showReadAlong || !audio || audio.alignment || !metadata?.text) return;
+    let cancelled = false;
+    const text = metadata.text;
+    decodeAudioFile(audio.blob, new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE))
+        .then(buffer => {
+            if (!cancelled) setEstimatedWords(alignWords(buffer, text));
+        })
+        .catch(() => {});
+    return () => { cancelled = true; };
+  }, [showReadAlong, audio, metadata?.text]);
+
+  const loopRange = loop ? selection : null;
+
+  // timeupdate fires only a few times a second, too coarse for the playhead,
+  // word highlighting and looping a selection
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+        const el = audioRef.current;
+        if (el) {
+            if (loopRange && el.currentTime >= loopRange.end) el.currentTime = loopRange.start;
+            setCurrentTime(el.currentTime);
+        }
+        frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, loopRange]);
+
   const togglePlay = useCallback((e?: React.MouseEvent) => {
     e?.stopPropagation();
 
@@ -65,35 +142,85 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     if (isPlaying) {
       audioRef.current.pause();
     } else {
+      // Playing with a loop selected starts inside it
+      const time = audioRef.current.currentTime;
+      if (loopRange && (time < loopRange.start || time >= loopRange.end)) audioRef.current.currentTime = loopRange.start;
       audioRef.current.play();
     }
     setIsPlaying(!isPlaying);
-  }, [isPlaying, audio, onGenerate]);
+  }, [isPlaying, audio, onGenerate, loopRange]);
 
   const handleTimeUpdate = () => {
     if (audioRef.current) {
-      const current = audioRef.current.currentTime;
-      const duration = audioRef.current.duration;
-      if (duration > 0) {
-        setProgress((current / duration) * 100);
-      }
+      setCurrentTime(audioRef.current.currentTime);
     }
   };
 
   const handleEnded = () => {
+    // A selection running to the very end loops from here
+    if (loopRange && audioRef.current) {
+        audioRef.current.currentTime = loopRange.start;
+        audioRef.current.play();
+        return;
+    }
     setIsPlaying(false);
-    setProgress(100);
+    setCurrentTime(audio?.duration ?? 0);
     // Optional: Reset after a short delay
     setTimeout(() => {
         if (!audioRef.current) return;
         audioRef.current.currentTime = 0;
-        setProgress(0);
+        setCurrentTime(0);
     }, 1000);
   };
 
-  const downloadName = fileName 
-    ? (fileName.endsWith('.wav') ? fileName : `${fileName}.wav`)
-    : `gemini-speech-${Date.now()}.wav`;
+  const seek = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  // Clicking a word plays from it
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    seek(time);
+    audioRef.current.play()
+        .then(() => setIsPlaying(true))
+        .catch(() => setIsPlaying(false));
+  };
+
+  const readAlongButton = canReadAlong && (
+    <button
+        onClick={() => setShowReadAlong(!showReadAlong)}
+        className={`transition-colors ${showReadAlong ? 'text-indigo-400 hover:text-indigo-300' : 'text-slate-400 hover:text-white'}`}
+        title={showReadAlong ? 'Hide read-along' : 'Read along'}
+    >
+        <svg xmlns="http://www.w3.org/2000/svg" className={layout === 'row' ? 'h-5 w-5' : 'h-4 w-4'} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h7" />
+        </svg>
+    </button>
+  );
+
+  const readAlong = showReadAlong && canReadAlong && (
+    words
+        ? <ReadAlong words={words} currentTime={currentTime} onSeek={seekTo} compact={layout === 'row'} />
+        : <p className="text-xs text-slate-500 italic">Aligning text...</p>
+  );
+
+  const downloadName = withExportExtension(fileName || `gemini-speech-${Date.now()}`, exportSettings);
+
+  // Non-WAV formats are encoded on demand
+  const handleDownload = async () => {
+    if (!audio || isExporting) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      downloadBlob(await exportAudio(audio.blob, exportSettings, metadata), downloadName);
+    } catch (err: unknown) {
+      setExportError(describeError(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   // --- TINY LAYOUT (Icon only) ---
   if (layout === 'tiny') {
@@ -107,6 +234,21 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
                 onPlay={() => setIsPlaying(true)}
                 className="hidden" 
             />
+
+            {audio && !isGenerating && (
+                <div className="w-16 flex-shrink-0">
+                    <Waveform
+                        peaks={peaks}
+                        duration={audio.duration}
+                        currentTime={currentTime}
+                        height={20}
+                        isPlaying={isPlaying}
+                        zoomable={false}
+                        onSeek={seek}
+                        onTogglePlay={() => togglePlay()}
+                    />
+                </div>
+            )}
             
             {isGenerating ? (
                 <div className="w-6 h-6 flex-shrink-0 flex items-center justify-center">
@@ -175,6 +317,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   // --- ROW LAYOUT ---
   if (layout === 'row') {
     return (
+      <div className="w-full space-y-2">
         <div className="flex items-center space-x-3 w-full bg-slate-800/50 rounded-lg p-2 border border-slate-700">
             <audio 
                 ref={audioRef} 
@@ -200,37 +343,46 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
                 )}
             </button>
 
-            <div className="flex-grow bg-slate-700 h-1.5 rounded-full overflow-hidden relative cursor-pointer" onClick={(e) => {
-                if (audioRef.current && audio.duration > 0) {
-                    const rect = e.currentTarget.getBoundingClientRect();
-                    const x = e.clientX - rect.left;
-                    const percent = x / rect.width;
-                    audioRef.current.currentTime = percent * audioRef.current.duration;
-                }
-            }}>
-                <div 
-                    className="bg-indigo-500 h-full rounded-full transition-all duration-100 ease-out"
-                    style={{ width: `${progress}%` }}
+            <div className="flex-grow min-w-0">
+                <Waveform
+                    peaks={peaks}
+                    duration={audio.duration}
+                    currentTime={currentTime}
+                    height={32}
+                    isPlaying={isPlaying}
+                    selection={selection}
+                    onSeek={seek}
+                    onSelect={setSelection}
+                    onTogglePlay={() => togglePlay()}
                 />
             </div>
 
              <div className="text-xs text-slate-400 font-mono whitespace-nowrap min-w-[30px] text-right">
-                {audioRef.current ? (
-                    `${Math.floor(audioRef.current.currentTime / 60)}:${Math.floor(audioRef.current.currentTime % 60).toString().padStart(2, '0')}`
-                ) : "0:00"}
+                {formatTime(currentTime)}
             </div>
 
-            <a 
-                href={audio.url} 
-                download={downloadName}
-                className="text-slate-400 hover:text-white transition-colors"
-                title={`Download ${downloadName}`}
+            {readAlongButton}
+
+            <button
+                onClick={handleDownload}
+                disabled={isExporting}
+                className="text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                title={isExporting ? 'Encoding...' : `Download ${downloadName}`}
             >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                </svg>
-            </a>
+                {isExporting ? (
+                    <div className="w-5 h-5 flex items-center justify-center">
+                        <div className="w-3.5 h-3.5 rounded-full border-2 border-slate-400 border-t-transparent animate-spin"></div>
+                    </div>
+                ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                )}
+            </button>
         </div>
+        {readAlong}
+        {exportError && <p className="text-xs text-red-400">{exportError}</p>}
+      </div>
     );
   }
 
@@ -255,16 +407,20 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
                 </span>
             )}
         </div>
-        <a 
-          href={audio.url} 
-          download={downloadName}
-          className="flex items-center text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-          </svg>
-          Download WAV
-        </a>
+        <div className="flex items-center gap-3">
+          {readAlongButton}
+          <button
+            onClick={handleDownload}
+            disabled={isExporting}
+            className="flex items-center text-sm text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-50"
+            title={`Download ${downloadName}`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            {isExporting ? 'Encoding...' : `Download ${downloadName.split('.').pop()!.toUpperCase()}`}
+          </button>
+        </div>
       </div>
 
       <div className="flex items-center space-x-4">
@@ -284,28 +440,47 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           )}
         </button>
 
-        <div className="flex-grow bg-slate-700 h-2 rounded-full overflow-hidden relative group cursor-pointer" onClick={(e) => {
-             if (audioRef.current && audio.duration > 0) {
-                 const rect = e.currentTarget.getBoundingClientRect();
-                 const x = e.clientX - rect.left;
-                 const percent = x / rect.width;
-                 audioRef.current.currentTime = percent * audioRef.current.duration;
-             }
-        }}>
-          <div 
-            className="bg-indigo-500 h-full rounded-full transition-all duration-100 ease-out relative"
-            style={{ width: `${progress}%` }}
+        <div className="flex-grow min-w-0">
+          <Waveform
+            peaks={peaks}
+            duration={audio.duration}
+            currentTime={currentTime}
+            height={72}
+            isPlaying={isPlaying}
+            selection={selection}
+            showRuler
+            showZoomControls
+            onSeek={seek}
+            onSelect={setSelection}
+            onTogglePlay={() => togglePlay()}
           >
-             <div className="absolute right-0 top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"></div>
-          </div>
+            {selection ? (
+              <div className="flex items-center gap-2 text-slate-400">
+                <button
+                  onClick={() => setLoop(!loop)}
+                  className={`px-2 h-6 rounded transition-colors ${loop ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+                  title={loop ? 'Playback repeats the selection' : 'Play the selection on repeat'}
+                >
+                  Loop
+                </button>
+                <span className="font-mono">{formatPreciseTime(selection.start)} – {formatPreciseTime(selection.end)}</span>
+                <button onClick={() => setSelection(null)} className="text-slate-500 hover:text-slate-300" title="Clear selection">
+                  ×
+                </button>
+              </div>
+            ) : (
+              <span className="text-[10px] text-slate-500">Drag to select a range to loop. Clipped peaks show in red.</span>
+            )}
+          </Waveform>
         </div>
-        
-        <div className="text-xs text-slate-400 font-mono min-w-[3.5rem] text-right">
-           {audioRef.current ? (
-               `${Math.floor(audioRef.current.currentTime / 60)}:${Math.floor(audioRef.current.currentTime % 60).toString().padStart(2, '0')}`
-           ) : "0:00"}
+
+        <div className="text-xs text-slate-400 font-mono whitespace-nowrap min-w-[3.5rem] text-right">
+           {formatTime(currentTime)} / {formatTime(audio.duration)}
         </div>
       </div>
+
+      {readAlong && <div className="mt-4">{readAlong}</div>}
+      {exportError && <p className="mt-4 text-xs text-red-400">{exportError}</p>}
     </div>
   );
 };
\ No newline at end of file
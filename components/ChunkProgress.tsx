@@ -0,0 +1,45 @@
+import React from 'react';
+import { NarrationChunk } from '../services/chunkedNarration';
+
+interface ChunkProgressProps {
+    chunks: NarrationChunk[];
+    onRetry?: () => void;
+}
+
+const STATUS_COLORS: Record<NarrationChunk['status'], string> = {
+    pending: 'bg-slate-700',
+    generating: 'bg-indigo-400 animate-pulse',
+    success: 'bg-indigo-600',
+    error: 'bg-red-500',
+};
+
+export const ChunkProgress: React.FC<ChunkProgressProps> = ({ chunks, onRetry }) => {
+    // Short text goes out in a single request; there's nothing to show
+    if (chunks.length < 2) return null;
+
+    const done = chunks.filter(c => c.status === 'success').length;
+    const failed = chunks.filter(c => c.status === 'error').length;
+    const isRunning = chunks.some(c => c.status === 'generating');
+
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-[10px] text-slate-500">
+                <span>Chunk {done}/{chunks.length}{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}</span>
+                {failed > 0 && !isRunning && onRetry && (
+                    <button onClick={onRetry} className="text-indigo-400 hover:text-indigo-300 hover:underline">
+                        Retry failed chunks
+                    </button>
+                )}
+            </div>
+            <div className="flex gap-0.5">
+                {chunks.map((chunk, i) => (
+                    <div
+                        key={i}
+                        className={`h-1.5 flex-1 rounded-sm ${STATUS_COLORS[chunk.status]}`}
+                        title={`Chunk ${i + 1}: ${chunk.error ? `Error: ${chunk.error}` : chunk.text.slice(0, 80)}`}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
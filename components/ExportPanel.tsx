@@ -0,0 +1,123 @@
+import React from 'react';
+import { ExportFormat, ExportSettings, WavBitDepth } from '../types';
+import {
+    BIT_DEPTHS, EXPORT_FORMATS, EXPORT_SAMPLE_RATES, MP3_BITRATES, MP3_MAX_SAMPLE_RATE, OPUS_BITRATES, isExportFormatAvailable
+} from '../services/audioExport';
+import { TTS_SAMPLE_RATE } from '../utils/audioUtils';
+
+interface ExportPanelProps {
+    settings: ExportSettings;
+    onChange: (settings: ExportSettings) => void;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<ExportSettings>) => onChange({ ...settings, ...changes });
+    // Lossy formats choose their own sample precision
+    const hasBitDepth = settings.format === 'wav' || settings.format === 'flac';
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700">
+                <h3 className="text-sm font-semibold text-slate-200">Export Format</h3>
+                <p className="text-[10px] text-slate-500 mt-0.5">Used for downloads and project ZIPs, resampled and encoded in the browser</p>
+            </div>
+
+            <div className="p-4 space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Format</span>
+                        <select
+                            value={settings.format}
+                            onChange={(e) => update({ format: e.target.value as ExportFormat })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        >
+                            {EXPORT_FORMATS.map(f => (
+                                <option key={f.id} value={f.id} disabled={!isExportFormatAvailable(f.id)}>
+                                    {f.label}{isExportFormatAvailable(f.id) ? '' : ' (not supported by this browser)'}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {settings.format === 'mp3' && (
+                        <label className="block">
+                            <span className="block text-slate-500 mb-1">Bitrate</span>
+                            <select
+                                value={settings.mp3BitrateKbps}
+                                onChange={(e) => update({ mp3BitrateKbps: Number(e.target.value) })}
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                            >
+                                {MP3_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+                            </select>
+                        </label>
+                    )}
+
+                    {settings.format === 'opus' && (
+                        <label className="block">
+                            <span className="block text-slate-500 mb-1">Bitrate</span>
+                            <select
+                                value={settings.opusBitrateKbps}
+                                onChange={(e) => update({ opusBitrateKbps: Number(e.target.value) })}
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                            >
+                                {OPUS_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+                            </select>
+                        </label>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Sample rate</span>
+                        <select
+                            value={settings.sampleRate ?? ''}
+                            onChange={(e) => update({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        >
+                            <option value="">As generated ({TTS_SAMPLE_RATE / 1000} kHz)</option>
+                            {EXPORT_SAMPLE_RATES.map(rate => (
+                                <option key={rate} value={rate} disabled={settings.format === 'mp3' && rate > MP3_MAX_SAMPLE_RATE}>
+                                    {rate / 1000} kHz
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Bit depth</span>
+                        <select
+                            value={settings.bitDepth}
+                            disabled={!hasBitDepth}
+                            onChange={(e) => update({ bitDepth: Number(e.target.value) as WavBitDepth })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                        >
+                            {BIT_DEPTHS.map(depth => (
+                                <option key={depth.id} value={depth.id} disabled={settings.format === 'flac' && depth.id === 32}>
+                                    {depth.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Channels</span>
+                        <select
+                            value={settings.channels ?? ''}
+                            onChange={(e) => update({ channels: e.target.value ? Number(e.target.value) as 1 | 2 : null })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        >
+                            <option value="">As generated</option>
+                            <option value={1}>Mono</option>
+                            <option value={2}>Stereo</option>
+                        </select>
+                    </label>
+                </div>
+
+                <p className="text-slate-500">
+                    {settings.format === 'wav' && 'Uncompressed PCM, or 32-bit float.'}
+                    {settings.format === 'flac' && 'Lossless, about half the size of WAV. Up to 24-bit.'}
+                    {settings.format === 'mp3' && 'Plays everywhere. Below 32 kHz the MP3 standard caps the bitrate at 160 kbps.'}
+                    {settings.format === 'opus' && 'Smallest files at a given quality; speech sounds good from 32 kbps.'}
+                </p>
+            </div>
+        </div>
+    );
+};
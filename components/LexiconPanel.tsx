@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { LexiconEntry } from '../types';
+import { createLexiconEntry, segmentWithLexicon, exportLexiconJson, exportLexiconCsv, importLexicon, mergeLexicon } from '../services/lexicon';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface LexiconPanelProps {
+    entries: LexiconEntry[];
+    onChange: (entries: LexiconEntry[]) => void;
+    // Text of the current mode, shown with the substitutions applied
+    previewText: string;
+    fileName: string;
+}
+
+// Long texts only need their start previewed
+const PREVIEW_CHARS = 600;
+
+export const LexiconPanel: React.FC<LexiconPanelProps> = ({ entries, onChange, previewText, fileName }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const updateEntry = (id: string, changes: Partial<LexiconEntry>) =>
+        onChange(entries.map(e => e.id === id ? { ...e, ...changes } : e));
+
+    const handleImport = async (file: File) => {
+        try {
+            onChange(mergeLexicon(entries, await importLexicon(file)));
+            setError(null);
+        } catch (err: any) {
+            setError(err.message || "Failed to import the lexicon.");
+        }
+    };
+
+    const preview = segmentWithLexicon(previewText.slice(0, PREVIEW_CHARS), entries);
+    const replacedCount = preview.filter(s => s.type === 'replaced').length;
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-semibold text-slate-200">Pronunciation Lexicon</h3>
+                    <p className="text-[10px] text-slate-500 mt-0.5">Applied to every text before it is spoken</p>
+                </div>
+                <div className="flex items-center gap-3 text-xs">
+                    <label className="text-slate-400 hover:text-indigo-400 transition-colors cursor-pointer" title="Import entries from JSON or CSV">
+                        Import
+                        <input
+                            type="file"
+                            accept=".json,.csv,application/json,text/csv"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImport(file);
+                                e.target.value = '';
+                            }}
+                            className="hidden"
+                        />
+                    </label>
+                    <button
+                        onClick={() => downloadBlob(exportLexiconJson(entries), `${fileName}-lexicon.json`)}
+                        disabled={entries.length === 0}
+                        className="text-slate-400 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                    >
+                        JSON
+                    </button>
+                    <button
+                        onClick={() => downloadBlob(exportLexiconCsv(entries), `${fileName}-lexicon.csv`)}
+                        disabled={entries.length === 0}
+                        className="text-slate-400 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                    >
+                        CSV
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-4 space-y-3 text-xs">
+                {entries.length > 0 && (
+                    <div className="space-y-2">
+                        {entries.map(entry => (
+                            <div key={entry.id} className="space-y-1">
+                                <div className="flex items-center gap-1.5">
+                                    <input
+                                        type="text"
+                                        value={entry.term}
+                                        onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                                        placeholder="Term"
+                                        className="w-0 flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
+                                    />
+                                    <span className="text-slate-600">→</span>
+                                    <input
+                                        type="text"
+                                        value={entry.replacement}
+                                        onChange={(e) => updateEntry(entry.id, { replacement: e.target.value })}
+                                        placeholder="Say as"
+                                        className="w-0 flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
+                                    />
+                                    <button
+                                        onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                                        className="text-slate-500 hover:text-red-400 px-1"
+                                        title="Remove entry"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                                <div className="flex gap-3 pl-1 text-[10px] text-slate-500">
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })} />
+                                        Match case
+                                    </label>
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type="checkbox" checked={entry.wholeWord} onChange={(e) => updateEntry(entry.id, { wholeWord: e.target.checked })} />
+                                        Whole word
+                                    </label>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onChange([...entries, createLexiconEntry()])}
+                    className="w-full py-1.5 border border-dashed border-slate-700 rounded text-slate-500 hover:border-indigo-500 hover:text-indigo-400 transition-colors"
+                >
+                    + Add Term
+                </button>
+
+                {error && <p className="text-red-400">{error}</p>}
+
+                {entries.length > 0 && previewText.trim() && (
+                    <div className="pt-2 border-t border-slate-700">
+                        <div className="flex items-center justify-between mb-1">
+                            <span className="font-semibold text-slate-400">Preview</span>
+                            <span className="text-[10px] text-slate-500">{replacedCount} substitution{replacedCount === 1 ? '' : 's'}</span>
+                        </div>
+                        <p className="max-h-40 overflow-y-auto custom-scrollbar whitespace-pre-wrap text-slate-400 leading-relaxed">
+                            {preview.map((segment, i) => segment.type === 'replaced' ? (
+                                <mark key={i} className="bg-indigo-500/20 text-indigo-200 rounded px-0.5" title={`Was: ${segment.original}`}>
+                                    {segment.text}
+                                </mark>
+                            ) : (
+                                <span key={i}>{segment.text}</span>
+                            ))}
+                            {previewText.length > PREVIEW_CHARS && <span className="text-slate-600">…</span>}
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedAudio, LoudnessSettings } from '../types';
+import { LOUDNESS_PRESETS } from '../services/loudness';
+import { decodeAudioFile, measureLoudness, measureTruePeak, TTS_SAMPLE_RATE } from '../utils/audioUtils';
+
+interface LoudnessPanelProps {
+    settings: LoudnessSettings;
+    onChange: (settings: LoudnessSettings) => void;
+    // The current output, measured so the target can be compared against it
+    audio: GeneratedAudio | null;
+}
+
+const CUSTOM_TARGET_LUFS = -18;
+
+const formatLevel = (value: number, unit: string) => isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+export const LoudnessPanel: React.FC<LoudnessPanelProps> = ({ settings, onChange, audio }) => {
+    const [measurement, setMeasurement] = useState<{ loudness: number; truePeak: number } | null>(null);
+
+    useEffect(() => {
+        setMeasurement(null);
+        if (!audio) return;
+        let cancelled = false;
+        decodeAudioFile(audio.blob, new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE))
+            .then(buffer => {
+                if (!cancelled) setMeasurement({ loudness: measureLoudness(buffer), truePeak: measureTruePeak(buffer) });
+            })
+            .catch(() => {});
+        return () => { cancelled = true; };
+    }, [audio?.blob]);
+
+    const update = (changes: Partial<LoudnessSettings>) => onChange({ ...settings, ...changes });
+
+    const preset = settings.targetLufs === null
+        ? 'off'
+        : LOUDNESS_PRESETS.some(p => p.lufs === settings.targetLufs) ? String(settings.targetLufs) : 'custom';
+
+    const handlePresetChange = (value: string) => {
+        if (value === 'off') update({ targetLufs: null });
+        else if (value === 'custom') update({ targetLufs: CUSTOM_TARGET_LUFS });
+        else update({ targetLufs: Number(value) });
+    };
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700">
+                <h3 className="text-sm font-semibold text-slate-200">Loudness</h3>
+                <p className="text-[10px] text-slate-500 mt-0.5">Integrated loudness (ITU-R BS.1770) with a true-peak limiter</p>
+            </div>
+
+            <div className="p-4 space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Target</span>
+                        <select
+                            value={preset}
+                            onChange={(e) => handlePresetChange(e.target.value)}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        >
+                            <option value="off">Off (as generated)</option>
+                            {LOUDNESS_PRESETS.map(p => (
+                                <option key={p.lufs} value={p.lufs}>{p.label} ({p.lufs} LUFS)</option>
+                            ))}
+                            <option value="custom">Custom</option>
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">True-peak ceiling (dBTP)</span>
+                        <input
+                            type="number"
+                            min={-12}
+                            max={0}
+                            step={0.5}
+                            value={settings.truePeakDbtp}
+                            disabled={settings.targetLufs === null}
+                            onChange={(e) => update({ truePeakDbtp: Math.max(-12, Math.min(0, Number(e.target.value))) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                        />
+                    </label>
+                </div>
+
+                {preset === 'custom' && (
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Custom target (LUFS)</span>
+                        <input
+                            type="number"
+                            min={-40}
+                            max={-5}
+                            step={0.5}
+                            value={settings.targetLufs ?? CUSTOM_TARGET_LUFS}
+                            onChange={(e) => update({ targetLufs: Math.max(-40, Math.min(-5, Number(e.target.value))) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        />
+                    </label>
+                )}
+
+                <label className="block">
+                    <span className="block text-slate-500 mb-1">Normalize</span>
+                    <select
+                        value={settings.scope}
+                        disabled={settings.targetLufs === null}
+                        onChange={(e) => update({ scope: e.target.value as LoudnessSettings['scope'] })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                    >
+                        <option value="clip">Each clip as it is generated</option>
+                        <option value="project">Whole project on export (keeps relative levels)</option>
+                    </select>
+                </label>
+
+                <p className="text-slate-500">
+                    {settings.targetLufs === null
+                        ? 'Audio is kept at the level the model produced.'
+                        : settings.scope === 'clip'
+                            ? 'New audio is normalized as it is generated. ZIP exports and program renders also normalize older clips.'
+                            : 'Clips keep their generated levels; ZIP exports share one gain and program renders are normalized as a whole.'}
+                </p>
+
+                {measurement && (
+                    <div className="flex justify-between pt-2 border-t border-slate-700 text-slate-400">
+                        <span>Current output</span>
+                        <span className="font-mono">
+                            {formatLevel(measurement.loudness, 'LUFS')} · {formatLevel(measurement.truePeak, 'dBTP')}
+                        </span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
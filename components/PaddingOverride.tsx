@@ -0,0 +1,58 @@
+import React from 'react';
+import { ClipPadding, SilenceSettings } from '../types';
+import { resolvePadding } from '../services/silence';
+
+interface PaddingOverrideProps {
+    padding: ClipPadding | undefined;
+    silence: SilenceSettings;
+    // Undefined goes back to the project padding
+    onChange: (padding: ClipPadding | undefined) => void;
+}
+
+// Per-clip head/tail padding. Only shown while silence trimming is on, since
+// padding is applied when the silence is trimmed.
+export const PaddingOverride: React.FC<PaddingOverrideProps> = ({ padding, silence, onChange }) => {
+    if (!silence.enabled) return null;
+
+    if (!padding) {
+        return (
+            <button
+                onClick={() => onChange(resolvePadding(silence))}
+                className="text-[10px] text-slate-500 hover:text-indigo-400 whitespace-nowrap"
+                title={`Uses the project padding (${silence.headSeconds}s before, ${silence.tailSeconds}s after). Click to set this clip's own.`}
+            >
+                Padding: project
+            </button>
+        );
+    }
+
+    const inputClass = "w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 focus:border-indigo-500 outline-none";
+    return (
+        <div className="flex items-center gap-1 text-[10px] text-slate-500 whitespace-nowrap" title="Silence before and after this clip, in seconds. Applies from the next generation.">
+            <span>Padding</span>
+            <input
+                type="number"
+                min={0}
+                step={0.05}
+                value={padding.headSeconds}
+                onChange={(e) => onChange({ ...padding, headSeconds: Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+                aria-label="Head padding (s)"
+            />
+            <span>/</span>
+            <input
+                type="number"
+                min={0}
+                step={0.05}
+                value={padding.tailSeconds}
+                onChange={(e) => onChange({ ...padding, tailSeconds: Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+                aria-label="Tail padding (s)"
+            />
+            <span>s</span>
+            <button onClick={() => onChange(undefined)} className="text-slate-500 hover:text-red-400" title="Use the project padding">
+                Reset
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import { ClipMetadata, ExportSettings, LoudnessSettings, MusicBedSettings, ProgramSettings, Snippet, UploadedAudio } from '../types';
+import { AudioPlayer } from './AudioPlayer';
+import { RenderedProgram, renderProgram, formatChapterTime, formatChapterList } from '../services/programRenderer';
+import { DEFAULT_MUSIC_BED } from '../services/musicBed';
+import { exportAudio, withExportExtension } from '../services/audioExport';
+import { formatCueSheet, formatPodcastChapters, getChapterSpans } from '../services/chapterExport';
+import { formatSrt, formatWebVtt } from '../services/captions';
+import { downloadBlob } from '../utils/fileUtils';
+import JSZip from 'jszip';
+
+interface ProgramRenderPanelProps {
+    snippets: Snippet[];
+    settings: ProgramSettings;
+    onSettingsChange: (settings: ProgramSettings) => void;
+    loudness: LoudnessSettings;
+    fileName: string;
+    exportSettings: ExportSettings;
+    // Chapter markers are added to it
+    metadata: ClipMetadata;
+}
+
+export const ProgramRenderPanel: React.FC<ProgramRenderPanelProps> = ({
+    snippets,
+    settings,
+    onSettingsChange,
+    loudness,
+    fileName,
+    exportSettings,
+    metadata
+}) => {
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [program, setProgram] = useState<RenderedProgram | null>(null);
+    const [isPackaging, setIsPackaging] = useState(false);
+
+    // A render no longer matches once its clips' audio or the settings change,
+    // so it can't be downloaded with outdated audio or chapters. Renames and
+    // status changes leave it alone. Its object URL is released when it is
+    // replaced and on unmount.
+    const clipAudioKey = snippets
+        .flatMap(s => [s.audio?.url, ...s.subsections.map(sub => sub.audio?.url)])
+        .join('\n');
+    useEffect(() => {
+        setProgram(null);
+    }, [settings, clipAudioKey, loudness]);
+    useEffect(() => () => {
+        if (program) URL.revokeObjectURL(program.audio.url);
+    }, [program]);
+
+    const update = (changes: Partial<ProgramSettings>) => onSettingsChange({ ...settings, ...changes });
+    const music = settings.music ?? DEFAULT_MUSIC_BED;
+    const updateMusic = (changes: Partial<MusicBedSettings>) => update({ music: { ...music, ...changes } });
+
+    const handleClipUpload = (e: React.ChangeEvent<HTMLInputElement>, onLoad: (clip: UploadedAudio) => void) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('audio/')) {
+            setError("Please upload a valid audio file.");
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            const clip: UploadedAudio = {
+                name: file.name,
+                data: (reader.result as string).split(',')[1],
+                mimeType: file.type
+            };
+            onLoad(clip);
+            setError(null);
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const handleRender = async () => {
+        setIsRendering(true);
+        setError(null);
+        try {
+            setProgram(await renderProgram(snippets, settings, loudness));
+        } catch (err: any) {
+            setError(err.message || "Failed to render the program.");
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    // Chapter files reference the audio by the name it is exported under
+    const audioFileName = withExportExtension(fileName, exportSettings);
+    const chapterMarkers = program ? program.chapters.map(c => ({ time: c.startTime, label: c.title })) : [];
+    const programMetadata: ClipMetadata | null = program && { ...metadata, markers: chapterMarkers };
+    const chapterSpans = program ? getChapterSpans(chapterMarkers, program.audio.duration) : [];
+    const cueSheet = () => new Blob(
+        [formatCueSheet(chapterSpans, audioFileName, { title: metadata.title, performer: metadata.voice })],
+        { type: 'application/x-cue' }
+    );
+    const chaptersJson = () => new Blob(
+        [formatPodcastChapters(chapterSpans, { title: metadata.title, audioFileName })],
+        { type: 'application/json+chapters' }
+    );
+
+    // The program in the export format (with ID3 chapters for MP3) alongside its chapter files
+    const handleDownloadPackage = async () => {
+        if (!program || !programMetadata) return;
+        setIsPackaging(true);
+        setError(null);
+        try {
+            const zip = new JSZip();
+            zip.file(audioFileName, await exportAudio(program.audio.blob, exportSettings, programMetadata));
+            zip.file(`${fileName}.cue`, cueSheet());
+            zip.file(`${fileName}-chapters.json`, chaptersJson());
+            if (program.captions.length > 0) {
+                zip.file(`${fileName}.srt`, formatSrt(program.captions));
+                zip.file(`${fileName}.vtt`, formatWebVtt(program.captions));
+            }
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), `${fileName}.zip`);
+        } catch (err: any) {
+            setError(err.message || "Failed to export the program.");
+        } finally {
+            setIsPackaging(false);
+        }
+    };
+
+    const renderClipInput = (key: 'intro' | 'outro', label: string) => {
+        const clip = settings[key];
+        return (
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-500 w-10">{label}</span>
+                {clip ? (
+                    <div className="flex items-center gap-2 min-w-0 flex-grow justify-end">
+                        <span className="text-slate-300 truncate" title={clip.name}>{clip.name}</span>
+                        <button onClick={() => update({ [key]: null })} className="text-slate-500 hover:text-red-400 flex-shrink-0">Remove</button>
+                    </div>
+                ) : (
+                    <label className="cursor-pointer text-indigo-400 hover:text-indigo-300">
+                        Choose file
+                        <input type="file" accept="audio/*" onChange={(e) => handleClipUpload(e, (clip) => update({ [key]: clip }))} className="hidden" />
+                    </label>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700">
+                <h3 className="text-sm font-semibold text-slate-200">Render Full Program</h3>
+                <p className="text-[10px] text-slate-500 mt-0.5">Joins all generated audio in table-of-contents order</p>
+            </div>
+
+            <div className="p-4 space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Gap between sections (s)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.25}
+                            value={settings.sectionGapSeconds}
+                            onChange={(e) => update({ sectionGapSeconds: Math.max(0, Number(e.target.value)) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Gap between subsections (s)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.25}
+                            value={settings.subsectionGapSeconds}
+                            onChange={(e) => update({ subsectionGapSeconds: Math.max(0, Number(e.target.value)) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                        />
+                    </label>
+                </div>
+
+                <label className="block">
+                    <span className="block text-slate-500 mb-1">Include</span>
+                    <select
+                        value={settings.content}
+                        onChange={(e) => update({ content: e.target.value as ProgramSettings['content'] })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                    >
+                        <option value="all">Sections and subsections</option>
+                        <option value="sections">Sections only</option>
+                        <option value="subsections">Subsections in place of their section</option>
+                    </select>
+                </label>
+
+                {renderClipInput('intro', 'Intro')}
+                {renderClipInput('outro', 'Outro')}
+
+                <div className="space-y-2 pt-3 border-t border-slate-700">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-slate-500 flex-shrink-0">Music bed</span>
+                        {music.audio ? (
+                            <div className="flex items-center gap-2 min-w-0 flex-grow justify-end">
+                                <span className="text-slate-300 truncate" title={music.audio.name}>{music.audio.name}</span>
+                                <button onClick={() => updateMusic({ audio: null })} className="text-slate-500 hover:text-red-400 flex-shrink-0">Remove</button>
+                            </div>
+                        ) : (
+                            <label className="cursor-pointer text-indigo-400 hover:text-indigo-300">
+                                Choose file
+                                <input type="file" accept="audio/*" onChange={(e) => handleClipUpload(e, (clip) => updateMusic({ audio: clip }))} className="hidden" />
+                            </label>
+                        )}
+                    </div>
+                    {music.audio && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="block">
+                                <span className="block text-slate-500 mb-1">Length</span>
+                                <select
+                                    value={music.fit}
+                                    onChange={(e) => updateMusic({ fit: e.target.value as MusicBedSettings['fit'] })}
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                                >
+                                    <option value="loop">Loop to fit</option>
+                                    <option value="once">Play once</option>
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="block text-slate-500 mb-1">Volume (dB)</span>
+                                <input
+                                    type="number"
+                                    max={6}
+                                    step={1}
+                                    value={music.gainDb}
+                                    onChange={(e) => updateMusic({ gainDb: Math.min(6, Number(e.target.value)) })}
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                                />
+                            </label>
+                            <label className="block">
+                                <span className="block text-slate-500 mb-1">Fade in (s)</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={music.fadeInSeconds}
+                                    onChange={(e) => updateMusic({ fadeInSeconds: Math.max(0, Number(e.target.value)) })}
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                                />
+                            </label>
+                            <label className="block">
+                                <span className="block text-slate-500 mb-1">Fade out (s)</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={music.fadeOutSeconds}
+                                    onChange={(e) => updateMusic({ fadeOutSeconds: Math.max(0, Number(e.target.value)) })}
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                                />
+                            </label>
+                            <label className="block col-span-2" title="How far the music drops while someone is speaking. 0 turns ducking off.">
+                                <span className="block text-slate-500 mb-1">Duck under speech (dB)</span>
+                                <input
+                                    type="number"
+                                    max={0}
+                                    step={1}
+                                    value={music.duckDb}
+                                    onChange={(e) => updateMusic({ duckDb: Math.min(0, Number(e.target.value)) })}
+                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                                />
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    onClick={handleRender}
+                    disabled={isRendering}
+                    className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm font-medium"
+                >
+                    {isRendering ? (
+                        <>
+                            <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                            <span>Rendering...</span>
+                        </>
+                    ) : (
+                        <span>Render Full Program</span>
+                    )}
+                </button>
+
+                {error && <p className="text-red-400">{error}</p>}
+
+                {program && (
+                    <div className="space-y-3 pt-2 border-t border-slate-700">
+                        <AudioPlayer
+                            audio={program.audio}
+                            isGenerating={isRendering}
+                            layout="row"
+                            fileName={fileName}
+                            exportSettings={exportSettings}
+                            metadata={programMetadata ?? undefined}
+                        />
+                        {program.skipped.length > 0 && (
+                            <p className="text-amber-500/80" title={program.skipped.join('\n')}>
+                                {program.skipped.length} item{program.skipped.length === 1 ? '' : 's'} without audio skipped
+                            </p>
+                        )}
+                        <button
+                            onClick={handleDownloadPackage}
+                            disabled={isPackaging}
+                            className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Program audio in the export format, a CUE sheet, Podcasting 2.0 chapters JSON and captions"
+                        >
+                            {isPackaging ? (
+                                <>
+                                    <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                    <span>Encoding...</span>
+                                </>
+                            ) : (
+                                <span>Download with Chapters (ZIP)</span>
+                            )}
+                        </button>
+                        <div className="flex items-center justify-between">
+                            <span className="font-semibold text-slate-400">Chapters</span>
+                            <div className="flex items-center gap-3">
+                                <button
+                                    onClick={() => downloadBlob(new Blob([formatChapterList(program.chapters)], { type: 'text/plain' }), `${fileName}-chapters.txt`)}
+                                    className="text-indigo-400 hover:text-indigo-300"
+                                    title="Plain-text list for video descriptions"
+                                >
+                                    List
+                                </button>
+                                <button
+                                    onClick={() => downloadBlob(cueSheet(), `${fileName}.cue`)}
+                                    className="text-indigo-400 hover:text-indigo-300"
+                                >
+                                    CUE
+                                </button>
+                                <button
+                                    onClick={() => downloadBlob(chaptersJson(), `${fileName}-chapters.json`)}
+                                    className="text-indigo-400 hover:text-indigo-300"
+                                    title="Podcasting 2.0 chapters"
+                                >
+                                    JSON
+                                </button>
+                            </div>
+                        </div>
+                        <ol className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                            {program.chapters.map((chapter, i) => (
+                                <li key={i} className={`flex gap-3 ${chapter.depth === 1 ? 'pl-4 text-slate-500' : 'text-slate-300'}`}>
+                                    <span className="font-mono text-slate-500 w-12 flex-shrink-0">{formatChapterTime(chapter.startTime)}</span>
+                                    <span className="truncate">{chapter.title}</span>
+                                </li>
+                            ))}
+                        </ol>
+                        {program.captions.length > 0 && (
+                            <div className="flex items-center justify-between pt-2 border-t border-slate-700">
+                                <span className="font-semibold text-slate-400">Captions</span>
+                                <div className="flex items-center gap-3">
+                                    <button
+                                        onClick={() => downloadBlob(new Blob([formatSrt(program.captions)], { type: 'application/x-subrip' }), `${fileName}.srt`)}
+                                        className="text-indigo-400 hover:text-indigo-300"
+                                    >
+                                        SRT
+                                    </button>
+                                    <button
+                                        onClick={() => downloadBlob(new Blob([formatWebVtt(program.captions)], { type: 'text/vtt' }), `${fileName}.vtt`)}
+                                        className="text-indigo-400 hover:text-indigo-300"
+                                    >
+                                        WebVTT
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectManagerProps {
+    projects: ProjectSummary[];
+    currentProjectId: string | null;
+    saveStatus: SaveStatus;
+    onOpen: (id: string) => void;
+    onCreate: () => void;
+    onDuplicate: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+}
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+    idle: '',
+    saving: 'Saving...',
+    saved: 'All changes saved',
+    error: 'Autosave failed',
+};
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({
+    projects,
+    currentProjectId,
+    saveStatus,
+    onOpen,
+    onCreate,
+    onDuplicate,
+    onRename,
+    onDelete,
+    onExport,
+    onImport
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+
+    const currentProject = projects.find(p => p.id === currentProjectId);
+
+    const startRename = (project: ProjectSummary) => {
+        setEditingId(project.id);
+        setEditingName(project.name);
+    };
+
+    const commitRename = () => {
+        if (editingId && editingName.trim()) {
+            onRename(editingId, editingName.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleDelete = (project: ProjectSummary) => {
+        if (window.confirm(`Delete "${project.name}" and all of its generated audio? This cannot be undone.`)) {
+            onDelete(project.id);
+        }
+    };
+
+    return (
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+            <div className="flex items-center justify-between p-4">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="flex items-center gap-2 text-left min-w-0"
+                >
+                    <span className="text-xs font-semibold text-slate-500 flex-shrink-0">PROJECT</span>
+                    <span className="text-sm font-medium text-slate-200 truncate">{currentProject ? currentProject.name : 'Loading...'}</span>
+                    <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                </button>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                    <span className={`text-[10px] ${saveStatus === 'error' ? 'text-red-400' : 'text-slate-500'}`}>
+                        {SAVE_STATUS_LABELS[saveStatus]}
+                    </span>
+                    <button
+                        onClick={onExport}
+                        disabled={!currentProject}
+                        className="text-xs text-slate-400 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                        title="Download a bundle that can be imported again"
+                    >
+                        Export
+                    </button>
+                    <label className="text-xs text-slate-400 hover:text-indigo-400 transition-colors cursor-pointer" title="Import a project bundle (.zip)">
+                        Import
+                        <input
+                            type="file"
+                            accept=".zip,application/zip"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImport(file);
+                                e.target.value = '';
+                            }}
+                            className="hidden"
+                        />
+                    </label>
+                    <button
+                        onClick={onCreate}
+                        className="text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1 rounded-full transition-colors"
+                    >
+                        + New Project
+                    </button>
+                </div>
+            </div>
+
+            {isOpen && (
+                <div className="border-t border-slate-700/50 max-h-72 overflow-y-auto custom-scrollbar py-1">
+                    {projects.map(project => (
+                        <div
+                            key={project.id}
+                            className={`group px-4 py-2 flex items-center justify-between gap-4 transition-colors ${
+                                project.id === currentProjectId ? 'bg-indigo-600/10' : 'hover:bg-slate-700/30'
+                            }`}
+                        >
+                            {editingId === project.id ? (
+                                <input
+                                    type="text"
+                                    autoFocus
+                                    value={editingName}
+                                    onChange={(e) => setEditingName(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    className="flex-grow bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-indigo-500 outline-none"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => { onOpen(project.id); setIsOpen(false); }}
+                                    className="flex flex-col text-left min-w-0 flex-grow"
+                                >
+                                    <span className={`text-sm truncate ${project.id === currentProjectId ? 'text-indigo-300 font-medium' : 'text-slate-300'}`}>
+                                        {project.name}
+                                    </span>
+                                    <span className="text-[10px] text-slate-500">
+                                        Edited {new Date(project.updatedAt).toLocaleString()}
+                                    </span>
+                                </button>
+                            )}
+                            <div className="flex items-center gap-3 flex-shrink-0 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => startRename(project)} className="text-slate-400 hover:text-indigo-400">Rename</button>
+                                <button onClick={() => onDuplicate(project.id)} className="text-slate-400 hover:text-indigo-400">Duplicate</button>
+                                <button onClick={() => handleDelete(project)} className="text-slate-400 hover:text-red-400">Delete</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
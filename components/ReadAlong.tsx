@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { AlignedWord } from '../types';
+
+interface ReadAlongProps {
+    words: AlignedWord[];
+    currentTime: number;
+    onSeek: (time: number) => void;
+    compact?: boolean;
+}
+
+// Text of a clip with the word being spoken highlighted, karaoke style
+export const ReadAlong: React.FC<ReadAlongProps> = ({ words, currentTime, onSeek, compact }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const activeRef = useRef<HTMLSpanElement>(null);
+
+    // The last word that has started; nothing before the first one
+    let active = -1;
+    for (let i = 0; i < words.length && words[i].start <= currentTime; i++) active = i;
+    const activeSentence = active === -1 ? -1 : words[active].sentence;
+
+    // Keep the spoken word in view without scrolling the page
+    useEffect(() => {
+        const container = containerRef.current;
+        const word = activeRef.current;
+        if (!container || !word) return;
+        if (word.offsetTop < container.scrollTop || word.offsetTop + word.offsetHeight > container.scrollTop + container.clientHeight) {
+            container.scrollTo({ top: word.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+        }
+    }, [active]);
+
+    return (
+        <div
+            ref={containerRef}
+            className={`relative overflow-y-auto bg-slate-900/60 border border-slate-700 rounded-lg leading-relaxed ${compact ? 'max-h-28 p-2 text-xs' : 'max-h-40 p-3 text-sm'}`}
+        >
+            {words.map((word, i) => (
+                <React.Fragment key={i}>
+                    <span
+                        ref={i === active ? activeRef : undefined}
+                        onClick={() => onSeek(word.start)}
+                        title={`${Math.floor(word.start / 60)}:${(word.start % 60).toFixed(1).padStart(4, '0')}`}
+                        className={`cursor-pointer rounded px-0.5 transition-colors ${
+                            i === active
+                                ? 'bg-indigo-500 text-white'
+                                : word.sentence === activeSentence
+                                    ? 'text-slate-100 hover:bg-slate-700'
+                                    : 'text-slate-500 hover:bg-slate-700 hover:text-slate-300'
+                        }`}
+                    >
+                        {word.text}
+                    </span>
+                    {' '}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
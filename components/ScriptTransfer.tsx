@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Character, ScriptLine } from '../types';
+import { ScriptImportResult, SkippedLine, parseFountain } from '../services/fountainImport';
+import { parseTranscript, parseScriptCsv, exportTranscript, exportScriptCsv } from '../services/scriptFormats';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface ScriptTransferProps {
+    characters: Character[];
+    script: ScriptLine[];
+    // Replaces the cast and script with an imported one
+    onImport: (result: ScriptImportResult) => void;
+    fileName: string;
+}
+
+type ScriptFormat = 'transcript' | 'csv' | 'fountain';
+
+const formatFromFileName = (name: string): ScriptFormat => {
+    if (/\.csv$/i.test(name)) return 'csv';
+    if (/\.(fountain|spmd)$/i.test(name)) return 'fountain';
+    return 'transcript';
+};
+
+const PARSERS: Record<ScriptFormat, (text: string, cast: Character[]) => ScriptImportResult> = {
+    transcript: parseTranscript,
+    csv: parseScriptCsv,
+    fountain: parseFountain,
+};
+
+export const ScriptTransfer: React.FC<ScriptTransferProps> = ({ characters, script, onImport, fileName }) => {
+    const [report, setReport] = useState<SkippedLine[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isPasting, setIsPasting] = useState(false);
+    const [pasted, setPasted] = useState('');
+
+    // Characters already in the cast keep their voice
+    const runImport = (text: string, format: ScriptFormat) => {
+        const result = PARSERS[format](text, characters);
+        if (result.script.length === 0) {
+            setError("No dialogue lines were found.");
+            setReport(result.skipped);
+            return false;
+        }
+        onImport(result);
+        setReport(result.skipped);
+        setError(null);
+        return true;
+    };
+
+    const handleFile = async (file: File) => {
+        try {
+            runImport(await file.text(), formatFromFileName(file.name));
+        } catch (err: any) {
+            setError(err.message || "Failed to import the script.");
+        }
+    };
+
+    const handlePaste = () => {
+        if (runImport(pasted, 'transcript')) {
+            setPasted('');
+            setIsPasting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3 mb-4">
+            <div className="flex items-center justify-end gap-3 text-xs">
+                <button onClick={() => setIsPasting(!isPasting)} className="text-slate-400 hover:text-indigo-400 transition-colors">
+                    Paste
+                </button>
+                <label className="text-slate-400 hover:text-indigo-400 transition-colors cursor-pointer" title="Replace the cast and script with a transcript (.txt), CSV or Fountain screenplay">
+                    Import
+                    <input
+                        type="file"
+                        accept=".txt,.csv,.fountain,.spmd,text/plain,text/csv"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleFile(file);
+                            e.target.value = '';
+                        }}
+                        className="hidden"
+                    />
+                </label>
+                <span className="text-slate-600">Export</span>
+                <button
+                    onClick={() => downloadBlob(new Blob([exportTranscript(script, characters)], { type: 'text/plain' }), `${fileName}-script.txt`)}
+                    disabled={script.length === 0}
+                    className="text-slate-400 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                >
+                    TXT
+                </button>
+                <button
+                    onClick={() => downloadBlob(new Blob([exportScriptCsv(script, characters)], { type: 'text/csv' }), `${fileName}-script.csv`)}
+                    disabled={script.length === 0}
+                    className="text-slate-400 hover:text-indigo-400 disabled:opacity-50 transition-colors"
+                >
+                    CSV
+                </button>
+            </div>
+
+            {isPasting && (
+                <div className="space-y-2">
+                    <textarea
+                        value={pasted}
+                        onChange={(e) => setPasted(e.target.value)}
+                        rows={6}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-200 focus:border-indigo-500 outline-none text-sm font-mono"
+                        placeholder={"Mary: Is anyone here?\nJohn (whispering): Right behind you."}
+                    />
+                    <div className="flex justify-end gap-2 text-xs">
+                        <button onClick={() => setIsPasting(false)} className="px-3 py-1.5 text-slate-400 hover:text-slate-200">Cancel</button>
+                        <button
+                            onClick={handlePaste}
+                            disabled={!pasted.trim()}
+                            className="px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 transition-colors"
+                        >
+                            Replace Script
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            {report && report.length > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 text-xs text-amber-200/80">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="font-semibold">{report.length} import issue{report.length === 1 ? '' : 's'}</span>
+                        <button onClick={() => setReport(null)} className="text-amber-200/60 hover:text-amber-100">Dismiss</button>
+                    </div>
+                    <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                        {report.map((skipped, i) => (
+                            <li key={i} className="flex gap-2">
+                                <span className="font-mono text-amber-200/50 w-10 flex-shrink-0 text-right">{skipped.lineNumber}</span>
+                                <span className="truncate" title={skipped.text}>{skipped.text}</span>
+                                <span className="ml-auto flex-shrink-0 text-amber-200/50">{skipped.reason}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,9 @@
 import React, { useRef } from 'react';
-import { Snippet, Subsection, VoiceName } from '../types';
+import { ExportSettings, SilenceSettings, Snippet, Subsection, VoiceName } from '../types';
 import { AudioPlayer } from './AudioPlayer';
+import { ChunkProgress } from './ChunkProgress';
+import { PaddingOverride } from './PaddingOverride';
+import { NarrationChunk } from '../services/chunkedNarration';
 
 interface SectionEditorProps {
     section: Snippet;
@@ -9,9 +12,12 @@ interface SectionEditorProps {
     featureName: string;
     onUpdate: (updatedSection: Snippet) => void;
     onDelete: (id: string) => void;
-    onGenerateSection: (id: string) => void;
-    onGenerateSubsection: (sectionId: string, subsectionId: string) => void;
+    onGenerateSection: (id: string, resume?: boolean) => void;
+    onGenerateSubsection: (sectionId: string, subsectionId: string, resume?: boolean) => void;
+    chunkProgress: Record<string, NarrationChunk[]>;
     generateFileName: (parts: string[]) => string;
+    silence: SilenceSettings;
+    exportSettings: ExportSettings;
 }
 
 export const SectionEditor: React.FC<SectionEditorProps> = ({ 
@@ -23,7 +29,10 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
     onDelete, 
     onGenerateSection, 
     onGenerateSubsection,
-    generateFileName
+    chunkProgress,
+    generateFileName,
+    silence,
+    exportSettings
 }) => {
     const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -44,6 +53,7 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
             name: `Part ${section.subsections.length + 1}`,
             text: selectedText,
             voice: section.voice, // Default to parent voice
+            direction: section.direction,
             audio: null,
             status: 'idle',
             error: null
@@ -99,6 +109,21 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
                                 ))}
                             </select>
 
+                            <input
+                                type="text"
+                                value={section.direction || ''}
+                                onChange={(e) => onUpdate({...section, direction: e.target.value})}
+                                placeholder="Direction (e.g. slow and clear)"
+                                title="How the section should be delivered. Not spoken."
+                                className="bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-xs italic text-slate-300 focus:border-indigo-500 outline-none w-full sm:w-64 shadow-sm"
+                            />
+
+                            <PaddingOverride
+                                padding={section.padding}
+                                silence={silence}
+                                onChange={(padding) => onUpdate({...section, padding})}
+                            />
+
                             <button
                               onClick={handleExtractSubsection}
                               className="ml-auto text-xs bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 border border-indigo-500/20 px-3 py-1.5 rounded transition-colors font-medium flex items-center"
@@ -150,10 +175,17 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
                                 isGenerating={section.status === 'generating'} 
                                 layout="row"
                                 fileName={generateFileName([appName, featureName, section.name])}
+                                exportSettings={exportSettings}
+                                metadata={{ title: section.name, voice: section.voice, appName, featureName, text: section.text }}
                             />
                         ) : (
                              <div className="text-xs text-slate-500 italic pl-1">Generate audio for this full section</div>
                         )}
+                        {chunkProgress[section.id] && (
+                            <div className="mt-2">
+                                <ChunkProgress chunks={chunkProgress[section.id]} onRetry={() => onGenerateSection(section.id, true)} />
+                            </div>
+                        )}
                     </div>
                     <button
                         onClick={() => onGenerateSection(section.id)}
@@ -202,6 +234,19 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
                                                     <option key={v} value={v}>{v}</option>
                                                 ))}
                                             </select>
+                                            <input
+                                                type="text"
+                                                value={sub.direction || ''}
+                                                onChange={(e) => updateSubsection(sub.id, { direction: e.target.value })}
+                                                placeholder="Direction (e.g. excited)"
+                                                title="How the subsection should be delivered. Not spoken."
+                                                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs italic text-slate-300 focus:border-indigo-500 outline-none w-full sm:w-48"
+                                            />
+                                            <PaddingOverride
+                                                padding={sub.padding}
+                                                silence={silence}
+                                                onChange={(padding) => updateSubsection(sub.id, { padding })}
+                                            />
                                          </div>
                                          <button onClick={() => deleteSubsection(sub.id)} className="text-slate-500 hover:text-red-400 p-1 rounded hover:bg-slate-700/50 transition-colors">
                                             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -225,8 +270,15 @@ export const SectionEditor: React.FC<SectionEditorProps> = ({
                                                     isGenerating={sub.status === 'generating'} 
                                                     layout="row"
                                                     fileName={generateFileName([appName, featureName, section.name, sub.name])}
+                                                    exportSettings={exportSettings}
+                                                    metadata={{ title: sub.name, voice: sub.voice, appName, featureName, text: sub.text }}
                                                 />
                                             )}
+                                            {chunkProgress[sub.id] && (
+                                                <div className="mt-2">
+                                                    <ChunkProgress chunks={chunkProgress[sub.id]} onRetry={() => onGenerateSubsection(section.id, sub.id, true)} />
+                                                </div>
+                                            )}
                                          </div>
                                          {!sub.audio && (
                                              <button
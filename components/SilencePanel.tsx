@@ -0,0 +1,76 @@
+import React from 'react';
+import { SilenceSettings } from '../types';
+
+interface SilencePanelProps {
+    settings: SilenceSettings;
+    onChange: (settings: SilenceSettings) => void;
+}
+
+export const SilencePanel: React.FC<SilencePanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<SilenceSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+                <div>
+                    <h3 className="text-sm font-semibold text-slate-200">Silence & Padding</h3>
+                    <p className="text-[10px] text-slate-500 mt-0.5">Trims generated clips and adds even head and tail silence</p>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        onChange={(e) => update({ enabled: e.target.checked })}
+                        className="accent-indigo-500"
+                    />
+                    Trim
+                </label>
+            </div>
+
+            <div className="p-4 space-y-3 text-xs">
+                <label className="block">
+                    <span className="block text-slate-500 mb-1">Silence threshold (dBFS)</span>
+                    <input
+                        type="number"
+                        min={-90}
+                        max={-20}
+                        step={1}
+                        value={settings.thresholdDb}
+                        disabled={!settings.enabled}
+                        onChange={(e) => update({ thresholdDb: Math.max(-90, Math.min(-20, Number(e.target.value))) })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                    />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Head padding (s)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.05}
+                            value={settings.headSeconds}
+                            disabled={!settings.enabled}
+                            onChange={(e) => update({ headSeconds: Math.max(0, Number(e.target.value)) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="block text-slate-500 mb-1">Tail padding (s)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.05}
+                            value={settings.tailSeconds}
+                            disabled={!settings.enabled}
+                            onChange={(e) => update({ tailSeconds: Math.max(0, Number(e.target.value)) })}
+                            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                        />
+                    </label>
+                </div>
+                <p className="text-slate-500">
+                    Applied as audio is generated. Sections, subsections and per-line takes can set their own padding.
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
-import { Snippet } from '../types';
+import { ClipMetadata, ExportSettings, LexiconEntry, LoudnessSettings, Snippet } from '../types';
 import JSZip from 'jszip';
 import { AudioPlayer } from './AudioPlayer';
+import { QueueProgress, isQueueActive, isStaleAudio } from '../services/generationQueue';
+import { normalizeForExport } from '../services/loudness';
+import { exportAudio, getExportExtension, withExportExtension } from '../services/audioExport';
+import { buildCaptions, formatSrt, formatWebVtt } from '../services/captions';
+import { decodeAudioFile, TTS_SAMPLE_RATE } from '../utils/audioUtils';
 
 interface TableOfContentsProps {
     snippets: Snippet[];
@@ -9,16 +14,40 @@ interface TableOfContentsProps {
     featureName: string;
     onGenerateSection: (id: string) => void;
     onGenerateSubsection: (sectionId: string, subsectionId: string) => void;
+    queueProgress: QueueProgress;
+    queueConcurrency: number;
+    onQueueConcurrencyChange: (limit: number) => void;
+    onGenerateAll: () => void;
+    onPauseQueue: () => void;
+    onResumeQueue: () => void;
+    onCancelQueue: () => void;
+    loudness: LoudnessSettings;
+    exportSettings: ExportSettings;
+    lexicon: LexiconEntry[];
 }
 
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
 export const TableOfContents: React.FC<TableOfContentsProps> = ({ 
     snippets, 
     appName, 
     featureName,
     onGenerateSection,
-    onGenerateSubsection
+    onGenerateSubsection,
+    queueProgress,
+    queueConcurrency,
+    onQueueConcurrencyChange,
+    onGenerateAll,
+    onPauseQueue,
+    onResumeQueue,
+    onCancelQueue,
+    loudness,
+    exportSettings,
+    lexicon
 }) => {
     const [isZipping, setIsZipping] = useState(false);
+    const isBatchRunning = isQueueActive(queueProgress);
+    const batchDone = queueProgress.completed + queueProgress.failed + queueProgress.cancelled;
 
     const generateFileName = (parts: (string | undefined)[]) => {
         return parts
@@ -44,6 +73,8 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
             
             if (!rootFolder) throw new Error("Could not create zip folder");
 
+            // Audio is collected first so it can be normalized as one set
+            const audioFiles: { name: string; blob: Blob; metadata: ClipMetadata }[] = [];
             let markdownContent = `# ${appName} - ${featureName}\n\n`;
             markdownContent += `Generated: ${new Date().toLocaleString()}\n\n## Structure\n\n`;
 
@@ -54,8 +85,12 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                 
                 // Add Section Audio
                 if (snippet.audio) {
-                    const fileName = generateFileName([appName, featureName, snippet.name]) + '.wav';
-                    rootFolder.file(fileName, snippet.audio.blob);
+                    const fileName = generateFileName([appName, featureName, snippet.name]);
+                    audioFiles.push({
+                        name: fileName,
+                        blob: snippet.audio.blob,
+                        metadata: { title: snippet.name, voice: snippet.voice, appName, featureName, text: snippet.text },
+                    });
                 }
 
                 // Process Subsections
@@ -64,13 +99,31 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                     markdownContent += `   ${i + 1}.${j + 1}. ${sub.name} (${sub.voice})\n`;
                     
                     if (sub.audio) {
-                        const subFileName = generateFileName([appName, featureName, snippet.name, sub.name]) + '.wav';
-                        rootFolder.file(subFileName, sub.audio.blob);
+                        const subFileName = generateFileName([appName, featureName, snippet.name, sub.name]);
+                        audioFiles.push({
+                            name: subFileName,
+                            blob: sub.audio.blob,
+                            metadata: { title: sub.name, voice: sub.voice, appName, featureName, text: sub.text },
+                        });
                     }
                 }
                 markdownContent += '\n';
             }
 
+            const normalized = await normalizeForExport(audioFiles.map(f => f.blob), loudness);
+            const ctx = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+            for (let i = 0; i < audioFiles.length; i++) {
+                const { name, metadata } = audioFiles[i];
+                rootFolder.file(withExportExtension(name, exportSettings), await exportAudio(normalized[i], exportSettings, metadata));
+
+                // Captions sit next to the audio under the same name
+                const captions = buildCaptions(await decodeAudioFile(normalized[i], ctx), metadata.text ?? '');
+                if (captions.length > 0) {
+                    rootFolder.file(`${name}.srt`, formatSrt(captions));
+                    rootFolder.file(`${name}.vtt`, formatWebVtt(captions));
+                }
+            }
+
             // Add Structure Markdown
             rootFolder.file("structure.md", markdownContent);
 
@@ -127,6 +180,58 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                     )}
                 </button>
             </div>
+
+            <div className="px-4 py-3 border-b border-slate-700 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    {isBatchRunning ? (
+                        <div className="flex items-center gap-3 text-xs">
+                            <button
+                                onClick={queueProgress.isPaused ? onResumeQueue : onPauseQueue}
+                                className="text-indigo-400 hover:text-indigo-300"
+                            >
+                                {queueProgress.isPaused ? 'Resume' : 'Pause'}
+                            </button>
+                            <button onClick={onCancelQueue} className="text-red-400 hover:text-red-300">Cancel</button>
+                        </div>
+                    ) : (
+                        <button
+                            onClick={onGenerateAll}
+                            className="text-xs px-3 py-1.5 rounded bg-slate-700 hover:bg-indigo-600 text-slate-200 hover:text-white transition-colors"
+                            title="Generate every section and subsection that has no audio, failed, or changed since it was generated"
+                        >
+                            Generate All
+                        </button>
+                    )}
+                    <label className="text-[10px] text-slate-500 flex items-center gap-1.5">
+                        Parallel
+                        <select
+                            value={queueConcurrency}
+                            onChange={(e) => onQueueConcurrencyChange(Number(e.target.value))}
+                            className="bg-slate-900 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none focus:border-indigo-500"
+                        >
+                            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                </div>
+                {queueProgress.total > 0 && (
+                    <div className="space-y-1">
+                        <div className="bg-slate-700 h-1.5 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full transition-all duration-300 ${queueProgress.isPaused ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                                style={{ width: `${(batchDone / queueProgress.total) * 100}%` }}
+                            />
+                        </div>
+                        <div className="text-[10px] text-slate-500 flex justify-between">
+                            <span>
+                                {batchDone}/{queueProgress.total} done
+                                {queueProgress.failed > 0 && <span className="text-red-400"> · {queueProgress.failed} failed</span>}
+                                {queueProgress.cancelled > 0 && <span> · {queueProgress.cancelled} cancelled</span>}
+                            </span>
+                            <span>{queueProgress.isPaused ? 'Paused' : (isBatchRunning ? `${queueProgress.running} running` : 'Finished')}</span>
+                        </div>
+                    </div>
+                )}
+            </div>
             
             <div className="p-0 max-h-[60vh] overflow-y-auto custom-scrollbar">
                 <div className="py-2">
@@ -138,6 +243,9 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                                     <span className="text-sm text-slate-300 truncate" title={snippet.name}>{snippet.name}</span>
                                 </div>
                                 <div className="flex items-center gap-2 flex-shrink-0">
+                                     {isStaleAudio(snippet, lexicon) && (
+                                         <span className="text-[10px] text-amber-500" title="Text or voice changed since this audio was generated">edited</span>
+                                     )}
                                      {snippet.audio && (
                                          <span className="text-[10px] text-slate-500 font-mono">
                                              {formatDuration(snippet.audio.duration)}
@@ -161,6 +269,9 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                                         <span className="text-xs text-slate-400 truncate" title={sub.name}>{sub.name}</span>
                                     </div>
                                     <div className="flex items-center gap-2 flex-shrink-0">
+                                        {isStaleAudio(sub, lexicon) && (
+                                            <span className="text-[10px] text-amber-500" title="Text or voice changed since this audio was generated">edited</span>
+                                        )}
                                         {sub.audio && (
                                             <span className="text-[10px] text-slate-500 font-mono">
                                                 {formatDuration(sub.audio.duration)}
@@ -180,7 +291,7 @@ export const TableOfContents: React.FC<TableOfContentsProps> = ({
                 </div>
             </div>
             <div className="p-3 bg-slate-850 border-t border-slate-700 text-[10px] text-slate-500 text-center">
-                Includes .wav files and structure.md
+                Includes .{getExportExtension(exportSettings)} files, .srt/.vtt captions and structure.md
             </div>
         </div>
     );
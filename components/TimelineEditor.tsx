@@ -0,0 +1,412 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Character, ClipMetadata, ExportSettings, ScriptLine, Snippet, Timeline, TimelineClip, TimelineTrack, UploadedAudio } from '../types';
+import { AudioPlayer } from './AudioPlayer';
+import {
+    MIN_CLIP_SECONDS,
+    RenderedTimeline,
+    createClip,
+    createTrack,
+    getTimelineDuration,
+    listClipSources,
+    renderTimeline,
+    resolveClipAudio
+} from '../services/timeline';
+import { decodeAudioFile, readAudioMetadata, TTS_SAMPLE_RATE } from '../utils/audioUtils';
+
+interface TimelineEditorProps {
+    timeline: Timeline;
+    onChange: (timeline: Timeline) => void;
+    snippets: Snippet[];
+    script: ScriptLine[];
+    characters: Character[];
+    fileName: string;
+    exportSettings: ExportSettings;
+    metadata: ClipMetadata;
+}
+
+type DragMode = 'move' | 'trim-start' | 'trim-end';
+
+interface DragState {
+    mode: DragMode;
+    clip: TimelineClip;
+    startX: number;
+}
+
+const ZOOM_LEVELS = [10, 20, 40, 80, 160]; // pixels per second
+const TRACK_HEIGHT = 48;
+const HEADER_WIDTH = 160;
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({
+    timeline,
+    onChange,
+    snippets,
+    script,
+    characters,
+    fileName,
+    exportSettings,
+    metadata
+}) => {
+    const [zoom, setZoom] = useState(ZOOM_LEVELS[2]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [sourceIndex, setSourceIndex] = useState(0);
+    const [targetTrackId, setTargetTrackId] = useState<string>(timeline.tracks[0]?.id ?? '');
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [rendered, setRendered] = useState<RenderedTimeline | null>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    // A mix no longer matches once the timeline or any clip's audio changes.
+    // Its object URL is released when it is replaced and on unmount.
+    const sourceAudioKey = [
+        ...snippets.flatMap(s => [s.audio?.url, ...s.subsections.map(sub => sub.audio?.url)]),
+        ...script.map(line => line.audio?.url),
+    ].join('\n');
+    useEffect(() => {
+        setRendered(null);
+    }, [timeline, sourceAudioKey]);
+    useEffect(() => () => {
+        if (rendered) URL.revokeObjectURL(rendered.audio.url);
+    }, [rendered]);
+
+    const sources = listClipSources(snippets, script, characters);
+    const trackId = timeline.tracks.some(t => t.id === targetTrackId) ? targetTrackId : timeline.tracks[0]?.id;
+    const selected = timeline.clips.find(c => c.id === selectedId) ?? null;
+    const timelineSeconds = Math.max(30, getTimelineDuration(timeline) + 10);
+
+    const updateClip = (id: string, changes: Partial<TimelineClip>) =>
+        onChange({ ...timeline, clips: timeline.clips.map(c => c.id === id ? { ...c, ...changes } : c) });
+
+    const updateTrack = (id: string, changes: Partial<TimelineTrack>) =>
+        onChange({ ...timeline, tracks: timeline.tracks.map(t => t.id === id ? { ...t, ...changes } : t) });
+
+    const removeTrack = (id: string) => {
+        onChange({ tracks: timeline.tracks.filter(t => t.id !== id), clips: timeline.clips.filter(c => c.trackId !== id) });
+    };
+
+    const addClip = (clip: TimelineClip) => {
+        onChange({ ...timeline, clips: [...timeline.clips, clip] });
+        setSelectedId(clip.id);
+    };
+
+    const handleAddSource = () => {
+        const option = sources[sourceIndex];
+        if (option && trackId) addClip(createClip(option, trackId, timeline));
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !trackId) return;
+        if (!file.type.startsWith('audio/')) {
+            setError("Please upload a valid audio file.");
+            return;
+        }
+        const reader = new FileReader();
+        reader.onloadend = async () => {
+            const upload: UploadedAudio = {
+                name: file.name,
+                data: (reader.result as string).split(',')[1],
+                mimeType: file.type
+            };
+            try {
+                const buffer = await decodeAudioFile(upload.data, new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE));
+                // Files exported from here carry their section name as a tag
+                const tags = await readAudioMetadata(upload.data);
+                const label = tags?.title || file.name;
+                addClip(createClip({ source: { kind: 'upload', upload }, label, duration: buffer.duration }, trackId, timeline));
+                setError(null);
+            } catch {
+                setError("This audio file could not be decoded.");
+            }
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const handleRender = async () => {
+        setIsRendering(true);
+        setError(null);
+        try {
+            setRendered(await renderTimeline(timeline, snippets, script));
+        } catch (err: any) {
+            setError(err.message || "Failed to render the timeline.");
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    // Dragging a clip body moves it; dragging an edge trims it. Trims are
+    // limited to the source so a clip can't play past either end of its audio.
+    const startDrag = (e: React.PointerEvent, clip: TimelineClip, mode: DragMode) => {
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { mode, clip, startX: e.clientX };
+        setSelectedId(clip.id);
+    };
+
+    const handleDrag = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        // Edge handles sit inside the clip; handle each move once
+        e.stopPropagation();
+        const delta = (e.clientX - drag.startX) / zoom;
+        const { clip } = drag;
+
+        if (drag.mode === 'move') {
+            updateClip(clip.id, { start: round(Math.max(0, clip.start + delta)) });
+        } else if (drag.mode === 'trim-start') {
+            const shift = Math.min(Math.max(delta, -clip.offset, -clip.start), clip.duration - MIN_CLIP_SECONDS);
+            updateClip(clip.id, {
+                start: round(clip.start + shift),
+                offset: round(clip.offset + shift),
+                duration: round(clip.duration - shift),
+            });
+        } else {
+            const duration = Math.min(Math.max(MIN_CLIP_SECONDS, clip.duration + delta), clip.sourceDuration - clip.offset);
+            updateClip(clip.id, { duration: round(duration) });
+        }
+    };
+
+    const endDrag = () => {
+        dragRef.current = null;
+    };
+
+    const numberInput = (label: string, value: number, onValue: (v: number) => void, step = 0.1, min?: number) => (
+        <label className="block">
+            <span className="block text-slate-500 mb-1">{label}</span>
+            <input
+                type="number"
+                step={step}
+                min={min}
+                value={value}
+                onChange={(e) => onValue(Number(e.target.value))}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+            />
+        </label>
+    );
+
+    return (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
+            <div className="p-4 border-b border-slate-700 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <h2 className="text-lg font-semibold text-slate-200">Timeline</h2>
+                    <p className="text-[10px] text-slate-500 mt-0.5">Drag clips to move them, drag their edges to trim</p>
+                </div>
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-500">Zoom</span>
+                    <button
+                        onClick={() => setZoom(ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(zoom) - 1)])}
+                        disabled={zoom === ZOOM_LEVELS[0]}
+                        className="w-6 h-6 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                    >
+                        −
+                    </button>
+                    <button
+                        onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(zoom) + 1)])}
+                        disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+                        className="w-6 h-6 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                    >
+                        +
+                    </button>
+                </div>
+            </div>
+
+            {/* Add clips */}
+            <div className="p-4 border-b border-slate-700 flex flex-wrap items-center gap-2 text-xs">
+                <select
+                    value={sourceIndex}
+                    onChange={(e) => setSourceIndex(Number(e.target.value))}
+                    disabled={sources.length === 0}
+                    className="flex-grow min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-slate-300 focus:border-indigo-500 outline-none disabled:opacity-50"
+                >
+                    {sources.length === 0 && <option>No generated clips yet</option>}
+                    {sources.map((option, i) => (
+                        <option key={i} value={i}>{option.label} ({option.duration.toFixed(1)}s)</option>
+                    ))}
+                </select>
+                <span className="text-slate-500">on</span>
+                <select
+                    value={trackId}
+                    onChange={(e) => setTargetTrackId(e.target.value)}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-slate-300 focus:border-indigo-500 outline-none"
+                >
+                    {timeline.tracks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <button
+                    onClick={handleAddSource}
+                    disabled={sources.length === 0 || !trackId}
+                    className="px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 transition-colors"
+                >
+                    Add Clip
+                </button>
+                <label className={`px-3 py-1.5 rounded bg-slate-700 text-slate-200 transition-colors ${trackId ? 'hover:bg-slate-600 cursor-pointer' : 'opacity-50'}`}>
+                    Import Audio
+                    <input type="file" accept="audio/*" onChange={handleImport} disabled={!trackId} className="hidden" />
+                </label>
+                <button
+                    onClick={() => onChange({ ...timeline, tracks: [...timeline.tracks, createTrack(`Track ${timeline.tracks.length + 1}`)] })}
+                    className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+                >
+                    + Track
+                </button>
+            </div>
+
+            {/* Tracks */}
+            <div className="flex">
+                <div className="flex-shrink-0 border-r border-slate-700" style={{ width: HEADER_WIDTH }}>
+                    <div className="h-6 border-b border-slate-700" />
+                    {timeline.tracks.map(track => (
+                        <div key={track.id} className="px-2 py-1 border-b border-slate-700/60 flex flex-col justify-center gap-1" style={{ height: TRACK_HEIGHT }}>
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="text"
+                                    value={track.name}
+                                    onChange={(e) => updateTrack(track.id, { name: e.target.value })}
+                                    className="w-0 flex-1 bg-transparent text-xs font-medium text-slate-200 outline-none border-b border-transparent focus:border-indigo-500"
+                                />
+                                <button onClick={() => removeTrack(track.id)} className="text-slate-600 hover:text-red-400 text-xs" title="Delete track and its clips">×</button>
+                            </div>
+                            <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                                <button
+                                    onClick={() => updateTrack(track.id, { muted: !track.muted })}
+                                    className={`px-1 rounded ${track.muted ? 'bg-amber-500/20 text-amber-400' : 'bg-slate-700 text-slate-400'}`}
+                                    title="Mute track"
+                                >
+                                    M
+                                </button>
+                                <input
+                                    type="number"
+                                    step={1}
+                                    value={track.gainDb}
+                                    onChange={(e) => updateTrack(track.id, { gainDb: Number(e.target.value) })}
+                                    className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-slate-300 outline-none"
+                                    title="Track gain (dB)"
+                                />
+                                dB
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex-grow overflow-x-auto custom-scrollbar" onClick={() => setSelectedId(null)}>
+                    <div className="relative" style={{ width: timelineSeconds * zoom }}>
+                        {/* Ruler */}
+                        <div className="h-6 border-b border-slate-700 relative text-[9px] text-slate-500 font-mono">
+                            {Array.from({ length: Math.ceil(timelineSeconds / 5) + 1 }, (_, i) => i * 5).map(t => (
+                                <span key={t} className="absolute top-0 h-full border-l border-slate-700 pl-1" style={{ left: t * zoom }}>
+                                    {Math.floor(t / 60)}:{String(t % 60).padStart(2, '0')}
+                                </span>
+                            ))}
+                        </div>
+
+                        {timeline.tracks.map(track => (
+                            <div key={track.id} className="relative border-b border-slate-700/60" style={{ height: TRACK_HEIGHT }}>
+                                {timeline.clips.filter(c => c.trackId === track.id).map(clip => {
+                                    const isMissing = !resolveClipAudio(clip.source, snippets, script);
+                                    return (
+                                        <div
+                                            key={clip.id}
+                                            onPointerDown={(e) => startDrag(e, clip, 'move')}
+                                            onPointerMove={handleDrag}
+                                            onPointerUp={endDrag}
+                                            onClick={(e) => e.stopPropagation()}
+                                            className={`absolute top-1 bottom-1 rounded border text-[10px] overflow-hidden cursor-grab select-none touch-none ${
+                                                isMissing ? 'bg-red-500/10 border-red-500/40 text-red-300'
+                                                : clip.id === selectedId ? 'bg-indigo-500/40 border-indigo-300 text-white'
+                                                : 'bg-indigo-500/20 border-indigo-500/50 text-indigo-100'
+                                            } ${track.muted ? 'opacity-40' : ''}`}
+                                            style={{ left: clip.start * zoom, width: Math.max(4, clip.duration * zoom) }}
+                                            title={isMissing ? `${clip.label} (audio missing)` : clip.label}
+                                        >
+                                            <div
+                                                onPointerDown={(e) => startDrag(e, clip, 'trim-start')}
+                                                onPointerMove={handleDrag}
+                                                onPointerUp={endDrag}
+                                                className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-white/10 hover:bg-white/30"
+                                            />
+                                            <span className="block px-2 pt-1 truncate">{clip.label}</span>
+                                            <div
+                                                onPointerDown={(e) => startDrag(e, clip, 'trim-end')}
+                                                onPointerMove={handleDrag}
+                                                onPointerUp={endDrag}
+                                                className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize bg-white/10 hover:bg-white/30"
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Selected clip */}
+            {selected && (
+                <div className="p-4 border-t border-slate-700 text-xs space-y-3">
+                    <div className="flex items-center justify-between">
+                        <span className="font-semibold text-slate-300 truncate">{selected.label}</span>
+                        <button
+                            onClick={() => {
+                                onChange({ ...timeline, clips: timeline.clips.filter(c => c.id !== selected.id) });
+                                setSelectedId(null);
+                            }}
+                            className="text-slate-500 hover:text-red-400"
+                        >
+                            Remove clip
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                        <label className="block">
+                            <span className="block text-slate-500 mb-1">Track</span>
+                            <select
+                                value={selected.trackId}
+                                onChange={(e) => updateClip(selected.id, { trackId: e.target.value })}
+                                className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:border-indigo-500 outline-none"
+                            >
+                                {timeline.tracks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                        </label>
+                        {numberInput('Start (s)', selected.start, v => updateClip(selected.id, { start: Math.max(0, v) }), 0.1, 0)}
+                        {numberInput('Trim start (s)', selected.offset, v => {
+                            const offset = Math.min(Math.max(0, v), selected.sourceDuration - MIN_CLIP_SECONDS);
+                            updateClip(selected.id, { offset, duration: Math.min(selected.duration, selected.sourceDuration - offset) });
+                        }, 0.1, 0)}
+                        {numberInput('Length (s)', selected.duration, v => updateClip(selected.id, {
+                            duration: Math.min(Math.max(MIN_CLIP_SECONDS, v), selected.sourceDuration - selected.offset)
+                        }), 0.1, MIN_CLIP_SECONDS)}
+                        {numberInput('Gain (dB)', selected.gainDb, v => updateClip(selected.id, { gainDb: v }), 1)}
+                    </div>
+                </div>
+            )}
+
+            <div className="p-4 border-t border-slate-700 space-y-3 text-xs">
+                <button
+                    onClick={handleRender}
+                    disabled={isRendering || timeline.clips.length === 0}
+                    className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-sm font-medium"
+                >
+                    {isRendering ? (
+                        <>
+                            <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                            <span>Rendering...</span>
+                        </>
+                    ) : (
+                        <span>Render Mix</span>
+                    )}
+                </button>
+                {error && <p className="text-red-400">{error}</p>}
+                {rendered && (
+                    <>
+                        <AudioPlayer audio={rendered.audio} isGenerating={isRendering} layout="row" fileName={fileName} exportSettings={exportSettings} metadata={metadata} />
+                        {rendered.missing.length > 0 && (
+                            <p className="text-amber-500/80" title={rendered.missing.join('\n')}>
+                                {rendered.missing.length} clip{rendered.missing.length === 1 ? '' : 's'} without audio left out
+                            </p>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { WaveformPeaks, getPeakColumn } from '../services/waveform';
+
+export interface WaveformSelection {
+    start: number; // in seconds
+    end: number;
+}
+
+interface WaveformProps {
+    peaks: WaveformPeaks | null;
+    duration: number;
+    currentTime: number;
+    height: number; // of the wave itself, in pixels
+    isPlaying?: boolean;
+    selection?: WaveformSelection | null;
+    showRuler?: boolean;
+    showZoomControls?: boolean;
+    zoomable?: boolean;
+    onSeek: (time: number) => void;
+    // Without it the waveform only seeks
+    onSelect?: (selection: WaveformSelection | null) => void;
+    onTogglePlay?: () => void;
+    // Shown to the left of the zoom buttons
+    children?: React.ReactNode;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64]; // times the width that fits the whole clip
+const RULER_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300]; // seconds
+const MIN_TICK_SPACING = 56; // pixels
+const RULER_HEIGHT = 14;
+// A press that moves less than this is a click
+const DRAG_THRESHOLD = 3;
+
+// Tailwind's indigo-400, slate-500, red-500, indigo-500 and slate-50
+const COLORS = {
+    played: '#818cf8',
+    unplayed: '#64748b',
+    clipped: '#ef4444',
+    selection: 'rgba(99, 102, 241, 0.25)',
+    playhead: '#f8fafc',
+};
+
+const formatRulerTime = (seconds: number, step: number) => {
+    const s = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${step < 1 ? s.toFixed(1).padStart(4, '0') : Math.round(s).toString().padStart(2, '0')}`;
+};
+
+// Clip waveform with a playhead. Click to seek, drag to select, Ctrl+wheel to
+// zoom; when focused the arrow keys seek, Space plays and +/- zoom.
+export const Waveform: React.FC<WaveformProps> = ({
+    peaks,
+    duration,
+    currentTime,
+    height,
+    isPlaying,
+    selection,
+    showRuler,
+    showZoomControls,
+    zoomable = true,
+    onSeek,
+    onSelect,
+    onTogglePlay,
+    children
+}) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [viewWidth, setViewWidth] = useState(0);
+    const [scrollLeft, setScrollLeft] = useState(0);
+    const [zoom, setZoom] = useState(1);
+    // The time kept under the same spot while zooming
+    const zoomAnchorRef = useRef<{ time: number; x: number } | null>(null);
+    const dragRef = useRef<{ startX: number; startTime: number; dragging: boolean } | null>(null);
+
+    const contentWidth = viewWidth * zoom;
+    const pxPerSecond = duration > 0 ? contentWidth / duration : 0;
+    // Zooming stops once a pixel is finer than a peak bin
+    const maxZoom = peaks && viewWidth ? Math.max(1, duration / peaks.binSeconds / viewWidth) : 1;
+    const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+    const canZoomIn = zoomable && zoomIndex < ZOOM_LEVELS.length - 1 && zoom < maxZoom;
+    const canZoomOut = zoomable && zoomIndex > 0;
+
+    const clampTime = (time: number) => Math.min(Math.max(0, time), duration);
+
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    // A different clip starts fully zoomed out
+    useEffect(() => {
+        setZoom(1);
+    }, [duration]);
+
+    const zoomBy = (direction: 1 | -1) => {
+        if (direction > 0 ? !canZoomIn : !canZoomOut) return;
+        if (!zoomAnchorRef.current && pxPerSecond) {
+            // Keep the playhead in place if it is visible, otherwise the middle of the view
+            const playheadX = currentTime * pxPerSecond - scrollLeft;
+            zoomAnchorRef.current = playheadX >= 0 && playheadX <= viewWidth
+                ? { time: currentTime, x: playheadX }
+                : { time: (scrollLeft + viewWidth / 2) / pxPerSecond, x: viewWidth / 2 };
+        }
+        setZoom(ZOOM_LEVELS[zoomIndex + direction]);
+    };
+
+    // Runs once the content has its new width, so the scroll position can be restored
+    useLayoutEffect(() => {
+        const el = scrollRef.current;
+        const anchor = zoomAnchorRef.current;
+        zoomAnchorRef.current = null;
+        if (!el) return;
+        if (anchor) el.scrollLeft = anchor.time * pxPerSecond - anchor.x;
+        setScrollLeft(el.scrollLeft);
+    }, [zoom]);
+
+    // React's wheel listeners are passive, so Ctrl+wheel would also zoom the page
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (!el || !zoomable) return;
+        const handleWheel = (e: WheelEvent) => {
+            if (!e.ctrlKey && !e.metaKey) return;
+            e.preventDefault();
+            if (pxPerSecond) {
+                const x = e.clientX - el.getBoundingClientRect().left;
+                zoomAnchorRef.current = { time: (el.scrollLeft + x) / pxPerSecond, x };
+            }
+            zoomBy(e.deltaY < 0 ? 1 : -1);
+        };
+        el.addEventListener('wheel', handleWheel, { passive: false });
+        return () => el.removeEventListener('wheel', handleWheel);
+    }, [zoomable, zoom, pxPerSecond, maxZoom]);
+
+    // While playing zoomed in, the view pages along with the playhead
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (!el || !isPlaying || zoom === 1) return;
+        const x = currentTime * pxPerSecond - el.scrollLeft;
+        if (x < 0 || x > viewWidth) el.scrollLeft = currentTime * pxPerSecond - viewWidth * 0.1;
+    }, [currentTime, isPlaying]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !viewWidth) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        const width = Math.round(viewWidth * dpr);
+        const pixelHeight = Math.round(height * dpr);
+        if (canvas.width !== width || canvas.height !== pixelHeight) {
+            canvas.width = width;
+            canvas.height = pixelHeight;
+        }
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, viewWidth, height);
+        if (!pxPerSecond) return;
+
+        if (selection) {
+            ctx.fillStyle = COLORS.selection;
+            ctx.fillRect(selection.start * pxPerSecond - scrollLeft, 0, (selection.end - selection.start) * pxPerSecond, height);
+        }
+
+        const mid = height / 2;
+        for (let x = 0; x < viewWidth; x++) {
+            const from = (scrollLeft + x) / pxPerSecond;
+            if (from >= duration) break;
+            // Until the peaks are ready the waveform is a flat progress line
+            const column = peaks ? getPeakColumn(peaks, from, (scrollLeft + x + 1) / pxPerSecond) : { min: 0, max: 0, clipped: false };
+            if (!column) break;
+            ctx.fillStyle = column.clipped ? COLORS.clipped : from < currentTime ? COLORS.played : COLORS.unplayed;
+            ctx.fillRect(x, mid - column.max * mid, 1, Math.max(1, (column.max - column.min) * mid));
+        }
+
+        const playheadX = Math.round(currentTime * pxPerSecond - scrollLeft);
+        if (playheadX >= 0 && playheadX <= viewWidth) {
+            ctx.fillStyle = COLORS.playhead;
+            ctx.fillRect(playheadX, 0, 1, height);
+        }
+    }, [peaks, duration, currentTime, selection, viewWidth, height, pxPerSecond, scrollLeft]);
+
+    const timeAt = (clientX: number) => {
+        const el = scrollRef.current!;
+        return pxPerSecond ? clampTime((clientX - el.getBoundingClientRect().left + el.scrollLeft) / pxPerSecond) : 0;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        const el = e.currentTarget;
+        // Presses on the scrollbar scroll rather than seek
+        if (e.button !== 0 || e.clientY > el.getBoundingClientRect().top + el.clientHeight) return;
+        e.stopPropagation();
+        el.setPointerCapture(e.pointerId);
+        dragRef.current = { startX: e.clientX, startTime: timeAt(e.clientX), dragging: false };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag || !onSelect) return;
+        if (!drag.dragging && Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD) return;
+        drag.dragging = true;
+        const time = timeAt(e.clientX);
+        onSelect({ start: Math.min(drag.startTime, time), end: Math.max(drag.startTime, time) });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag || drag.dragging) return;
+        const time = timeAt(e.clientX);
+        // Clicking outside the selection drops it
+        if (selection && (time < selection.start || time > selection.end)) onSelect?.(null);
+        onSeek(time);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = e.shiftKey ? 5 : e.altKey ? 0.1 : 1;
+        switch (e.key) {
+            case 'ArrowLeft': onSeek(clampTime(currentTime - step)); break;
+            case 'ArrowRight': onSeek(clampTime(currentTime + step)); break;
+            case 'Home': onSeek(0); break;
+            case 'End': onSeek(duration); break;
+            case ' ':
+                if (!onTogglePlay) return;
+                onTogglePlay();
+                break;
+            case '+':
+            case '=':
+                if (!zoomable) return;
+                zoomBy(1);
+                break;
+            case '-':
+                if (!zoomable) return;
+                zoomBy(-1);
+                break;
+            case 'Escape':
+                if (!selection || !onSelect) return;
+                onSelect(null);
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    // Only the ticks in view, so deep zoom doesn't render thousands of labels
+    const rulerStep = RULER_STEPS.find(step => step * pxPerSecond >= MIN_TICK_SPACING) ?? RULER_STEPS[RULER_STEPS.length - 1];
+    const ticks: number[] = [];
+    if (showRuler && pxPerSecond) {
+        const first = Math.floor(scrollLeft / pxPerSecond / rulerStep);
+        const last = Math.min(Math.floor(duration / rulerStep), Math.ceil((scrollLeft + viewWidth) / pxPerSecond / rulerStep));
+        for (let i = first; i <= last; i++) ticks.push(i * rulerStep);
+    }
+
+    return (
+        <div className="w-full min-w-0">
+            <div
+                ref={scrollRef}
+                tabIndex={0}
+                onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onKeyDown={handleKeyDown}
+                className="overflow-x-auto overflow-y-hidden custom-scrollbar rounded cursor-text outline-none focus-visible:ring-1 focus-visible:ring-indigo-500"
+                title={zoomable ? 'Click to seek, drag to select. Arrow keys seek, +/- zoom' : 'Click to seek'}
+            >
+                <div className="relative" style={{ width: contentWidth || '100%' }}>
+                    {showRuler && (
+                        <div className="relative border-b border-slate-700 text-[9px] text-slate-500 font-mono overflow-hidden" style={{ height: RULER_HEIGHT }}>
+                            {ticks.map(t => (
+                                <span key={t} className="absolute top-0 h-full border-l border-slate-700 pl-1 leading-none" style={{ left: t * pxPerSecond }}>
+                                    {formatRulerTime(t, rulerStep)}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <canvas ref={canvasRef} className="sticky left-0 block" style={{ width: viewWidth, height }} />
+                </div>
+            </div>
+
+            {showZoomControls && (
+                <div className="flex items-center justify-between gap-3 mt-2 text-xs">
+                    <div className="min-w-0">{children}</div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="text-slate-500">Zoom {zoom}×</span>
+                        <button
+                            onClick={() => zoomBy(-1)}
+                            disabled={!canZoomOut}
+                            className="w-6 h-6 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                        >
+                            −
+                        </button>
+                        <button
+                            onClick={() => zoomBy(1)}
+                            disabled={!canZoomIn}
+                            className="w-6 h-6 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                        >
+                            +
+                        </button>
+                        <button
+                            onClick={() => setZoom(1)}
+                            disabled={zoom === 1}
+                            className="px-2 h-6 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                        >
+                            Fit
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import { AlignedWord } from "../types";
+import { detectPauses, detectSilence } from "../utils/audioUtils";
+import { parsePauseMarkup } from "../utils/pauseMarkup";
+import { splitSentences } from "../utils/textChunking";
+
+// Model audio carries no timing information, so the source text is aligned
+// to it afterwards: sentence and clause boundaries are matched to the pauses
+// in the audio.
+
+export interface AlignedSentence {
+  text: string;
+  start: number; // First sound, in seconds
+  end: number; // Last sound before the next sentence's pause
+}
+
+// Anything quieter than this between words counts as a pause
+const PAUSE_THRESHOLD_DB = -40;
+const MIN_PAUSE_SECONDS = 0.12;
+// Shorter pauses still separate clauses within a sentence
+const MIN_CLAUSE_PAUSE_SECONDS = 0.06;
+
+// Spoken sentences in order; pause markup is dropped and paragraphs always end a sentence
+export function getSentences(text: string): string[] {
+  return parsePauseMarkup(text)
+    .flatMap(segment => segment.type === 'text' ? segment.text.split(/\n\s*\n/) : [])
+    .flatMap(paragraph => splitSentences(paragraph.replace(/\s+/g, ' ')))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const toSeconds = (pauses: Span[], sampleRate: number) =>
+  pauses.map(p => ({ start: p.start / sampleRate, end: p.end / sampleRate }));
+
+// Places consecutive pieces of text between start and end. Each boundary goes
+// to the pause nearest to where the text before it would put it; without
+// enough pauses the text share is used.
+function placeSegments(segments: string[], start: number, end: number, pauses: Span[]): Span[] {
+  const totalChars = segments.reduce((sum, s) => sum + s.length, 0);
+
+  // Where one segment stops and the next starts
+  const boundaries: Span[] = [];
+  let chars = 0;
+  let nextPause = 0;
+  for (let i = 1; i < segments.length; i++) {
+    chars += segments[i - 1].length;
+    const expected = start + (end - start) * chars / totalChars;
+    // Pauses are used in order, and each boundary leaves enough for the rest
+    const lastUsable = pauses.length - (segments.length - 1 - i);
+    let best = -1;
+    for (let p = nextPause; p < lastUsable; p++) {
+      if (best === -1 || Math.abs(pauses[p].end - expected) < Math.abs(pauses[best].end - expected)) best = p;
+    }
+    if (best === -1) {
+      const time = Math.max(boundaries[boundaries.length - 1]?.end ?? start, expected);
+      boundaries.push({ start: time, end: time });
+    } else {
+      boundaries.push(pauses[best]);
+      nextPause = best + 1;
+    }
+  }
+
+  return segments.map((_, i) => ({
+    start: i === 0 ? start : boundaries[i - 1].end,
+    end: i === segments.length - 1 ? end : boundaries[i].start,
+  }));
+}
+
+export function alignSentences(buffer: AudioBuffer, text: string): AlignedSentence[] {
+  const sentences = getSentences(text);
+  const speech = detectSilence(buffer, PAUSE_THRESHOLD_DB);
+  if (sentences.length === 0 || !speech) return [];
+
+  const pauses = toSeconds(detectPauses(buffer, PAUSE_THRESHOLD_DB, MIN_PAUSE_SECONDS), buffer.sampleRate);
+  const spans = placeSegments(sentences, speech.start / buffer.sampleRate, speech.end / buffer.sampleRate, pauses);
+  return sentences.map((sentence, i) => ({ text: sentence, ...spans[i] }));
+}
+
+// Word timings for read-along. Clauses (split at commas, semicolons, colons
+// and dashes) are matched to the shorter pauses inside each sentence, and
+// words within a clause are timed by their length.
+export function alignWords(buffer: AudioBuffer, text: string): AlignedWord[] {
+  const pauses = toSeconds(detectPauses(buffer, PAUSE_THRESHOLD_DB, MIN_CLAUSE_PAUSE_SECONDS), buffer.sampleRate);
+
+  return alignSentences(buffer, text).flatMap((sentence, index) => {
+    const clauses = (sentence.text.match(/[^,;:—]+[,;:—]*/g) ?? [sentence.text]).map(c => c.trim()).filter(Boolean);
+    const inner = pauses.filter(p => p.start > sentence.start && p.end < sentence.end);
+    const spans = placeSegments(clauses, sentence.start, sentence.end, inner);
+
+    return clauses.flatMap((clause, c) => {
+      const words = clause.split(' ').filter(Boolean);
+      // One extra unit per word for the transition between words
+      const total = words.reduce((sum, w) => sum + w.length + 1, 0);
+      const { start, end } = spans[c];
+      let units = 0;
+      return words.map(word => {
+        const wordStart = start + (end - start) * units / total;
+        units += word.length + 1;
+        return { text: word, start: wordStart, end: start + (end - start) * units / total, sentence: index };
+      });
+    });
+  });
+}
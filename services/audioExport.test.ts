@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { bufferToWavBlob } from "../utils/audioUtils";
+import { readWavFormat } from "../utils/wavMetadata";
+import { createTone } from "../test/fakeAudio";
+import { DEFAULT_EXPORT_SETTINGS, exportAudio, getExportSampleRate, withExportExtension } from "./audioExport";
+
+describe("readWavFormat", () => {
+  it("reads the sample format of WAVs at any rate and depth", async () => {
+    const wav = bufferToWavBlob(createTone(440, 0.01, 48000, 0.5, 2), 24);
+    expect(readWavFormat(await wav.arrayBuffer())).toEqual({ sampleRate: 48000, channels: 2, bitDepth: 24 });
+  });
+
+  it("is null for other formats", () => {
+    expect(readWavFormat(new TextEncoder().encode('ID3 not a wave file').buffer)).toBeNull();
+  });
+});
+
+describe("exportAudio", () => {
+  it("passes a 16-bit WAV through untouched at its own rate", async () => {
+    const wav = bufferToWavBlob(createTone(440, 0.01, 44100));
+    expect(await exportAudio(wav, DEFAULT_EXPORT_SETTINGS)).toBe(wav);
+    expect(await exportAudio(wav, { ...DEFAULT_EXPORT_SETTINGS, sampleRate: 44100, channels: 1 })).toBe(wav);
+  });
+});
+
+describe("export settings", () => {
+  it("keep the source rate unless one is chosen, capping MP3 at 48 kHz", () => {
+    expect(getExportSampleRate(DEFAULT_EXPORT_SETTINGS, 44100)).toBe(44100);
+    expect(getExportSampleRate({ ...DEFAULT_EXPORT_SETTINGS, sampleRate: 22050 }, 44100)).toBe(22050);
+    expect(getExportSampleRate({ ...DEFAULT_EXPORT_SETTINGS, format: 'mp3', sampleRate: 96000 }, 24000)).toBe(48000);
+  });
+
+  it("swap the file extension for the format", () => {
+    expect(withExportExtension('intro.wav', { ...DEFAULT_EXPORT_SETTINGS, format: 'mp3' })).toBe('intro.mp3');
+    expect(withExportExtension('intro', { ...DEFAULT_EXPORT_SETTINGS, format: 'opus' })).toBe('intro.opus');
+  });
+});
@@ -0,0 +1,93 @@
+import { ClipMetadata, ExportFormat, ExportSettings, WavBitDepth } from "../types";
+import { bufferToWavBlob, decodeAudioFile, remixChannels, resampleBuffer, TTS_SAMPLE_RATE } from "../utils/audioUtils";
+import { encodeFlac } from "../utils/flacEncoder";
+import { encodeMp3 } from "../utils/mp3Encoder";
+import { encodeOggOpus, isOpusEncodingAvailable } from "../utils/oggOpusEncoder";
+import { buildId3Tag } from "../utils/id3";
+import { readWavFormat, WavFormat } from "../utils/wavMetadata";
+import { buildId3Tags, buildWavMetadata } from "./clipMetadata";
+
+// Converts generated WAV audio to the selected download format, entirely in the browser
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'wav', label: 'WAV (uncompressed)', extension: 'wav' },
+  { id: 'flac', label: 'FLAC (lossless)', extension: 'flac' },
+  { id: 'mp3', label: 'MP3', extension: 'mp3' },
+  { id: 'opus', label: 'Ogg Opus', extension: 'opus' },
+];
+
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+export const OPUS_BITRATES = [24, 32, 48, 64, 96, 128];
+export const EXPORT_SAMPLE_RATES = [16000, 22050, 44100, 48000, 96000];
+// MP3 is only defined up to 48 kHz
+export const MP3_MAX_SAMPLE_RATE = 48000;
+
+export const BIT_DEPTHS: { id: WavBitDepth; label: string }[] = [
+  { id: 16, label: '16-bit' },
+  { id: 24, label: '24-bit' },
+  { id: 32, label: '32-bit float' },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  mp3BitrateKbps: 128,
+  opusBitrateKbps: 48,
+  sampleRate: null,
+  bitDepth: 16,
+  channels: null,
+};
+
+export const isExportFormatAvailable = (format: ExportFormat) => format !== 'opus' || isOpusEncodingAvailable();
+
+export const getExportExtension = (settings: ExportSettings) =>
+  EXPORT_FORMATS.find(f => f.id === settings.format)?.extension ?? 'wav';
+
+// Replaces (or adds) the extension to match the export format
+export const withExportExtension = (fileName: string, settings: ExportSettings) =>
+  `${fileName.replace(/\.(wav|flac|mp3|opus|ogg)$/i, '')}.${getExportExtension(settings)}`;
+
+// Sample rate the given format will be written at
+export function getExportSampleRate(settings: ExportSettings, sourceRate: number): number {
+  const rate = settings.sampleRate ?? sourceRate;
+  return settings.format === 'mp3' ? Math.min(MP3_MAX_SAMPLE_RATE, rate) : rate;
+}
+
+// True when the source WAV already is what the settings ask for, so it can be downloaded without re-encoding
+const isPassThrough = (settings: ExportSettings, source: WavFormat) =>
+  settings.format === 'wav' && settings.bitDepth === 16 && source.bitDepth === 16
+  && (settings.channels === null || settings.channels === source.channels)
+  && getExportSampleRate(settings, source.sampleRate) === source.sampleRate;
+
+const withId3Tag = (mp3: Blob, duration: number, clip?: ClipMetadata) =>
+  clip ? new Blob([buildId3Tag(buildId3Tags(clip, duration)), mp3], { type: 'audio/mpeg' }) : mp3;
+
+// WAV and MP3 files also get tags and markers (cues or chapters) when the clip is described
+export async function encodeAudioBuffer(buffer: AudioBuffer, settings: ExportSettings, clip?: ClipMetadata): Promise<Blob> {
+  const ctx = new OfflineAudioContext(1, 1, buffer.sampleRate);
+  let converted = resampleBuffer(buffer, getExportSampleRate(settings, buffer.sampleRate), ctx);
+  if (settings.channels) converted = remixChannels(converted, settings.channels, ctx);
+
+  switch (settings.format) {
+    case 'wav':
+      return bufferToWavBlob(converted, settings.bitDepth, clip && buildWavMetadata(clip, converted, settings.bitDepth));
+    case 'flac':
+      return encodeFlac(converted, settings.bitDepth === 16 ? 16 : 24);
+    case 'mp3':
+      return withId3Tag(encodeMp3(converted, settings.mp3BitrateKbps), converted.duration, clip);
+    case 'opus':
+      return encodeOggOpus(converted, settings.opusBitrateKbps);
+  }
+}
+
+// Leading chunks before `fmt ` are small, so the header is found in this much of the file
+const WAV_HEADER_BYTES = 64 * 1024;
+
+// Re-encodes a WAV at its own sample rate, so the chosen rate is the only
+// conversion; other formats are taken to be at the project rate. Undescribed
+// clips already in the requested format are passed through untouched.
+export async function exportAudio(audio: Blob, settings: ExportSettings, clip?: ClipMetadata): Promise<Blob> {
+  const source = readWavFormat(await audio.slice(0, WAV_HEADER_BYTES).arrayBuffer());
+  if (!clip && source && isPassThrough(settings, source)) return audio;
+  const buffer = await decodeAudioFile(audio, new OfflineAudioContext(1, 1, source?.sampleRate ?? TTS_SAMPLE_RATE));
+  return encodeAudioBuffer(buffer, settings, clip);
+}
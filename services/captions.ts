@@ -0,0 +1,84 @@
+import { alignSentences } from "./alignment";
+
+// SRT and WebVTT captions for generated audio. Cue timings come from aligning
+// the source text's sentences to the audio; long sentences are split into
+// caption-sized pieces timed by their share of the sentence.
+
+export interface CaptionCue {
+  start: number; // in seconds
+  end: number;
+  text: string; // At most two lines
+}
+
+// Common broadcast limits: two lines of up to 42 characters
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_CHARS = MAX_LINE_CHARS * 2;
+
+// Splits a sentence at word boundaries into pieces of similar length that each fit in a cue
+function splitIntoPieces(sentence: string): string[] {
+  if (sentence.length <= MAX_CUE_CHARS) return [sentence];
+  const target = sentence.length / Math.ceil(sentence.length / MAX_CUE_CHARS);
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of sentence.split(' ')) {
+    const next = current ? `${current} ${word}` : word;
+    if (current && (next.length > MAX_CUE_CHARS || current.length >= target)) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Breaks a piece into two lines at the space nearest the middle
+function wrapLines(text: string): string {
+  if (text.length <= MAX_LINE_CHARS) return text;
+  let best = -1;
+  for (let i = text.indexOf(' '); i !== -1; i = text.indexOf(' ', i + 1)) {
+    if (best === -1 || Math.abs(i - text.length / 2) < Math.abs(best - text.length / 2)) best = i;
+  }
+  return best === -1 ? text : `${text.slice(0, best)}\n${text.slice(best + 1)}`;
+}
+
+// Captions for one clip; offset places them within a longer program
+export function buildCaptions(buffer: AudioBuffer, text: string, offset = 0): CaptionCue[] {
+  return alignSentences(buffer, text).flatMap(sentence => {
+    const pieces = splitIntoPieces(sentence.text);
+    const totalChars = pieces.reduce((sum, p) => sum + p.length, 0);
+    let time = sentence.start;
+    return pieces.map(piece => {
+      const duration = (sentence.end - sentence.start) * piece.length / totalChars;
+      const cue = { start: offset + time, end: offset + time + duration, text: wrapLines(piece) };
+      time += duration;
+      return cue;
+    });
+  });
+}
+
+// HH:MM:SS plus milliseconds after the given separator
+const formatTimestamp = (seconds: number, separator: string) => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000).toString().padStart(2, '0');
+  const m = Math.floor((ms % 3600000) / 60000).toString().padStart(2, '0');
+  const s = Math.floor((ms % 60000) / 1000).toString().padStart(2, '0');
+  return `${h}:${m}:${s}${separator}${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+// Cue text can't contain markup characters or the timing arrow
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  return 'WEBVTT\n\n' + cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVtt(cue.text)}\n`)
+    .join('\n');
+}
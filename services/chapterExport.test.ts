@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatCueSheet, formatPodcastChapters, getChapterSpans } from "./chapterExport";
+
+describe("getChapterSpans", () => {
+  it("sorts markers, keeps the first at each time and runs the last to the end", () => {
+    const spans = getChapterSpans([
+      { time: 2, label: 'Setup' },
+      { time: 0, label: 'Intro' },
+      { time: 0.0001, label: 'First step' },
+    ], 5);
+    expect(spans).toEqual([
+      { title: 'Intro', startTime: 0, endTime: 2 },
+      { title: 'Setup', startTime: 2, endTime: 5 },
+    ]);
+  });
+});
+
+describe("chapter files", () => {
+  const chapters = [
+    { title: 'Intro', startTime: 0, endTime: 61.5 },
+    { title: 'The "hard" part', startTime: 61.5, endTime: 90.1234 },
+  ];
+
+  it("write a CUE sheet in minutes, seconds and frames", () => {
+    expect(formatCueSheet(chapters, 'program.mp3', { title: 'Tutorial', performer: 'Kore' }).split('\r\n')).toEqual([
+      'PERFORMER "Kore"',
+      'TITLE "Tutorial"',
+      'FILE "program.mp3" MP3',
+      '  TRACK 01 AUDIO',
+      '    TITLE "Intro"',
+      '    PERFORMER "Kore"',
+      '    INDEX 01 00:00:00',
+      '  TRACK 02 AUDIO',
+      "    TITLE \"The 'hard' part\"",
+      '    PERFORMER "Kore"',
+      '    INDEX 01 01:01:38',
+      '',
+    ]);
+  });
+
+  it("write Podcasting 2.0 chapters with millisecond times", () => {
+    expect(JSON.parse(formatPodcastChapters(chapters, { title: 'Tutorial', audioFileName: 'program.wav' }))).toEqual({
+      version: '1.2.0',
+      title: 'Tutorial',
+      fileName: 'program.wav',
+      chapters: [
+        { startTime: 0, endTime: 61.5, title: 'Intro' },
+        { startTime: 61.5, endTime: 90.123, title: 'The "hard" part' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { WavCue } from "../types";
+
+// Chapter files that accompany an exported program: a CUE sheet for audio
+// players and burning tools, and Podcasting 2.0 chapters JSON for podcast apps.
+
+export interface ChapterSpan {
+  title: string;
+  startTime: number; // in seconds
+  endTime: number;
+}
+
+// Markers can share a start time (a section made only of subsections starts
+// with its first subsection). The first marker at each time is kept, so
+// chapters are named after sections where a section starts.
+export function getChapterSpans(markers: WavCue[], duration: number): ChapterSpan[] {
+  const starts = [...markers]
+    .sort((a, b) => a.time - b.time)
+    .filter((marker, i, sorted) => i === 0 || marker.time - sorted[i - 1].time >= 0.001);
+  return starts.map((marker, i) => ({
+    title: marker.label,
+    startTime: marker.time,
+    endTime: i + 1 < starts.length ? starts[i + 1].time : duration,
+  }));
+}
+
+// CUE sheet times are minutes:seconds:frames, at 75 frames per second
+const formatCueTime = (seconds: number) => {
+  const frames = Math.round(seconds * 75);
+  const mm = Math.floor(frames / (75 * 60)).toString().padStart(2, '0');
+  const ss = Math.floor((frames / 75) % 60).toString().padStart(2, '0');
+  const ff = (frames % 75).toString().padStart(2, '0');
+  return `${mm}:${ss}:${ff}`;
+};
+
+// Quotes can't be escaped inside CUE strings
+const cueString = (text: string) => `"${text.replace(/"/g, "'")}"`;
+
+export function formatCueSheet(
+  chapters: ChapterSpan[],
+  audioFileName: string,
+  info: { title: string; performer?: string }
+): string {
+  const lines: string[] = [];
+  if (info.performer) lines.push(`PERFORMER ${cueString(info.performer)}`);
+  lines.push(`TITLE ${cueString(info.title)}`);
+  lines.push(`FILE ${cueString(audioFileName)} ${/\.mp3$/i.test(audioFileName) ? 'MP3' : 'WAVE'}`);
+  chapters.forEach((chapter, i) => {
+    lines.push(`  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${cueString(chapter.title)}`);
+    if (info.performer) lines.push(`    PERFORMER ${cueString(info.performer)}`);
+    lines.push(`    INDEX 01 ${formatCueTime(chapter.startTime)}`);
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// Podcasting 2.0 JSON chapters (podcast:chapters)
+export function formatPodcastChapters(chapters: ChapterSpan[], info: { title: string; audioFileName: string }): string {
+  return JSON.stringify({
+    version: '1.2.0',
+    title: info.title,
+    fileName: info.audioFileName,
+    chapters: chapters.map(chapter => ({
+      startTime: roundTime(chapter.startTime),
+      endTime: roundTime(chapter.endTime),
+      title: chapter.title,
+    })),
+  }, null, 2);
+}
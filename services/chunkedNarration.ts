@@ -0,0 +1,139 @@
+import { VoiceName } from "../types";
+import { splitTextIntoChunks } from "../utils/textChunking";
+import { parsePauseMarkup } from "../utils/pauseMarkup";
+import { createSilence, concatAudioBuffers } from "../utils/audioUtils";
+import { AuthError, CancelledError, classifyError, describeError } from "./ttsErrors";
+
+// Long narration is generated piecewise: the text is split into chunks that
+// each fit in a single TTS request, and the decoded chunks are kept so a
+// failed chunk can be retried without regenerating the ones that succeeded.
+// Pause markup splits the text too; the silence is kept on the chunk it precedes.
+
+export const DEFAULT_MAX_CHUNK_CHARS = 1500;
+export const CHUNK_CROSSFADE_SECONDS = 0.03;
+
+export interface NarrationChunk {
+  text: string;
+  voice: VoiceName;
+  direction: string;
+  status: 'pending' | 'generating' | 'success' | 'error';
+  error: string | null;
+  buffer: AudioBuffer | null;
+  // Silence from pause markup, in seconds
+  pauseBefore: number;
+  pauseAfter: number;
+}
+
+// Splits text into chunks at pause markers and size limits. When `previous` is
+// given, chunks with identical text, voice and direction keep their already generated audio.
+export function planChunks(
+  text: string,
+  voice: VoiceName,
+  direction: string,
+  maxChars: number,
+  previous?: NarrationChunk[]
+): NarrationChunk[] {
+  const chunks: NarrationChunk[] = [];
+  let pendingPause = 0;
+
+  for (const segment of parsePauseMarkup(text)) {
+    if (segment.type === 'pause') {
+      pendingPause += segment.seconds;
+      continue;
+    }
+    splitTextIntoChunks(segment.text, maxChars).forEach((chunkText, j) => {
+      const pauseBefore = j === 0 ? pendingPause : 0;
+      const prev = previous?.[chunks.length];
+      if (prev && prev.buffer && prev.text === chunkText && prev.voice === voice && prev.direction === direction) {
+        chunks.push({ ...prev, pauseBefore, pauseAfter: 0 });
+      } else {
+        chunks.push({ text: chunkText, voice, direction, status: 'pending', error: null, buffer: null, pauseBefore, pauseAfter: 0 });
+      }
+    });
+    pendingPause = 0;
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("There is no text to narrate, only pause markers.");
+  }
+  chunks[chunks.length - 1].pauseAfter = pendingPause;
+  return chunks;
+}
+
+// Generates every chunk that doesn't have audio yet, reporting each status
+// change. Keeps going past failures so a retry only has to redo those chunks.
+// An aborted signal stops before the next chunk starts, and so does a rejected
+// API key since every remaining chunk would fail the same way.
+export async function generateChunks(
+  chunks: NarrationChunk[],
+  generate: (chunk: NarrationChunk) => Promise<AudioBuffer>,
+  onUpdate: (chunks: NarrationChunk[]) => void,
+  signal?: AbortSignal
+): Promise<AudioBuffer[]> {
+  let current = chunks;
+  const update = (index: number, changes: Partial<NarrationChunk>) => {
+    current = current.map((c, i) => i === index ? { ...c, ...changes } : c);
+    onUpdate(current);
+  };
+
+  for (let i = 0; i < current.length; i++) {
+    if (current[i].buffer) continue;
+    if (signal?.aborted) throw new CancelledError();
+    update(i, { status: 'generating', error: null });
+    try {
+      const buffer = await generate(current[i]);
+      update(i, { status: 'success', buffer });
+    } catch (err) {
+      const typed = classifyError(err);
+      // A cancelled chunk is left to generate again on resume
+      if (typed instanceof CancelledError) {
+        update(i, { status: 'pending' });
+        throw typed;
+      }
+      update(i, { status: 'error', error: describeError(typed) });
+      if (typed instanceof AuthError) throw typed;
+    }
+  }
+
+  const failed = current.filter(c => c.status === 'error').length;
+  if (failed > 0) {
+    throw new Error(`${failed} of ${current.length} chunks failed. Retry to regenerate only the failed chunks.`);
+  }
+  return current.map(c => c.buffer!);
+}
+
+// Joins generated chunks into one buffer. Chunks that follow each other directly
+// are crossfaded; where pause markup sits between them, exactly that much
+// silence is inserted with hard joins so the pause length isn't eaten by a fade.
+// finishSpeech (silence trimming) runs before pause markup at the very start
+// or end is added, so those pauses keep their exact length too.
+export function assembleChunks(
+  chunks: NarrationChunk[],
+  buffers: AudioBuffer[],
+  ctx: BaseAudioContext,
+  finishSpeech: (speech: AudioBuffer) => AudioBuffer = speech => speech
+): AudioBuffer {
+  const parts: AudioBuffer[] = [];
+  let run: AudioBuffer[] = [];
+  const flushRun = () => {
+    if (run.length > 0) parts.push(concatAudioBuffers(run, ctx, CHUNK_CROSSFADE_SECONDS));
+    run = [];
+  };
+
+  chunks.forEach((chunk, i) => {
+    if (i > 0 && chunk.pauseBefore > 0) {
+      flushRun();
+      parts.push(createSilence(chunk.pauseBefore, ctx));
+    }
+    run.push(buffers[i]);
+  });
+  flushRun();
+
+  const pauseBefore = chunks[0]?.pauseBefore ?? 0;
+  const pauseAfter = chunks[chunks.length - 1]?.pauseAfter ?? 0;
+  return concatAudioBuffers([
+    ...(pauseBefore > 0 ? [createSilence(pauseBefore, ctx)] : []),
+    finishSpeech(concatAudioBuffers(parts, ctx)),
+    ...(pauseAfter > 0 ? [createSilence(pauseAfter, ctx)] : []),
+  ], ctx);
+}
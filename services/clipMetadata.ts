@@ -0,0 +1,59 @@
+import { ClipMetadata, WavCue, WavMetadata } from "../types";
+import { Id3Tags } from "../utils/id3";
+import { alignSentences } from "./alignment";
+import { getChapterSpans } from "./chapterExport";
+
+// Describes exported clips: where they came from (tags) and where each
+// sentence or chapter starts (cue markers, or ID3 chapters in MP3s).
+
+export const SOFTWARE_NAME = "Narrator Voice Studio";
+
+const CUE_LEAD_SECONDS = 0.05;
+const MAX_LABEL_CHARS = 60;
+
+const BEXT_DESCRIPTION_CHARS = 256;
+
+const describeProject = (clip: ClipMetadata) => [clip.appName, clip.featureName].filter(p => p.trim()).join(' - ');
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+// Markers sit just before each sentence's first sound
+export function estimateSentenceCues(buffer: AudioBuffer, text: string): WavCue[] {
+  return alignSentences(buffer, text).map((sentence, i, all) => ({
+    time: Math.max(i === 0 ? 0 : all[i - 1].end, sentence.start - CUE_LEAD_SECONDS),
+    label: truncate(sentence.text, MAX_LABEL_CHARS),
+  }));
+}
+
+// Tags for an exported clip; the audio is needed to place sentence markers
+export function buildWavMetadata(clip: ClipMetadata, buffer: AudioBuffer, bitDepth: number): WavMetadata {
+  const createdAt = new Date();
+  const project = describeProject(clip);
+  const channels = buffer.numberOfChannels === 1 ? 'mono' : 'stereo';
+  return {
+    title: clip.title,
+    artist: clip.voice,
+    album: project || undefined,
+    comment: project ? `${project} (${SOFTWARE_NAME})` : SOFTWARE_NAME,
+    subject: clip.text,
+    software: SOFTWARE_NAME,
+    date: createdAt.toISOString().slice(0, 10),
+    description: truncate(clip.text?.replace(/\s+/g, ' ').trim() || clip.title, BEXT_DESCRIPTION_CHARS),
+    originator: SOFTWARE_NAME,
+    originatorReference: clip.title,
+    createdAt,
+    codingHistory: `A=${bitDepth === 32 ? 'PCM_FLOAT' : 'PCM'},F=${buffer.sampleRate},W=${bitDepth},M=${channels},T=${SOFTWARE_NAME}\r\n`,
+    cues: clip.markers ?? (clip.text ? estimateSentenceCues(buffer, clip.text) : undefined),
+  };
+}
+
+// ID3 tags for an exported MP3. Only known markers become chapters.
+export function buildId3Tags(clip: ClipMetadata, duration: number): Id3Tags {
+  return {
+    title: clip.title,
+    artist: clip.voice,
+    album: describeProject(clip) || undefined,
+    software: SOFTWARE_NAME,
+    chapters: clip.markers && getChapterSpans(clip.markers, duration),
+  };
+}
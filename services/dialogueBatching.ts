@@ -0,0 +1,62 @@
+import { Character, ScriptLine } from "../types";
+import { TtsProvider } from "./ttsProvider";
+import { CancelledError } from "./ttsErrors";
+import { decodeAudioData, concatAudioBuffers } from "../utils/audioUtils";
+import { CHUNK_CROSSFADE_SECONDS } from "./chunkedNarration";
+
+// The TTS model's multi-speaker mode takes at most two voices per request, so
+// longer casts are generated as consecutive runs of lines that each involve no
+// more than two speakers, then stitched back together in script order.
+
+export const MAX_SPEAKERS_PER_REQUEST = 2;
+
+// Splits a script into consecutive runs with at most `maxSpeakers` distinct speakers,
+// making each run as long as possible
+export function splitIntoSpeakerRuns(script: ScriptLine[], maxSpeakers = MAX_SPEAKERS_PER_REQUEST): ScriptLine[][] {
+  const runs: ScriptLine[][] = [];
+  let run: ScriptLine[] = [];
+  let speakers = new Set<string>();
+
+  for (const line of script) {
+    if (!speakers.has(line.characterId) && speakers.size >= maxSpeakers) {
+      runs.push(run);
+      run = [];
+      speakers = new Set();
+    }
+    run.push(line);
+    speakers.add(line.characterId);
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+const speakersOf = (run: ScriptLine[], characters: Character[]) =>
+  characters.filter(c => run.some(line => line.characterId === c.id));
+
+// Generates a whole script of any cast size as one track. Runs with a single
+// speaker use single-voice synthesis, one request per line so each line keeps
+// its own direction.
+export async function generateDialogueTrack(
+  provider: TtsProvider,
+  script: ScriptLine[],
+  characters: Character[],
+  ctx: AudioContext,
+  signal?: AbortSignal
+): Promise<AudioBuffer> {
+  const missing = script.find(line => !characters.some(c => c.id === line.characterId));
+  if (missing) throw new Error("Every script line needs a speaker from the cast.");
+
+  const buffers: AudioBuffer[] = [];
+  for (const run of splitIntoSpeakerRuns(script)) {
+    const speakers = speakersOf(run, characters);
+    const requests = speakers.length > 1
+      ? [() => provider.generateDialogue({ script: run, characters: speakers, signal })]
+      : run.map(line => () => provider.generateSingleVoice({ text: line.text, voice: speakers[0].voice, direction: line.direction, signal }));
+
+    for (const request of requests) {
+      if (signal?.aborted) throw new CancelledError();
+      buffers.push(await decodeAudioData(await request(), ctx));
+    }
+  }
+  return concatAudioBuffers(buffers, ctx, CHUNK_CROSSFADE_SECONDS);
+}
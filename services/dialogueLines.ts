@@ -0,0 +1,43 @@
+import { Character, DialogueSettings, LexiconEntry, ScriptLine } from "../types";
+import { getRespelling } from "./lexicon";
+import { decodeAudioFile, createSilence, concatAudioBuffers } from "../utils/audioUtils";
+
+// Per-line dialogue rendering: every script line is generated as its own clip
+// with its character's voice, so a bad take can be redone without touching the
+// lines around it. The track is assembled from the clips with a fixed gap.
+
+export const DEFAULT_DIALOGUE_SETTINGS: DialogueSettings = {
+  renderMode: 'combined',
+  lineGapSeconds: 0.4,
+};
+
+// Identifies what a line's clip was generated from, so edits can be detected
+export const getLineGenerationKey = (line: ScriptLine, character: Character | undefined, lexicon: LexiconEntry[]) =>
+  JSON.stringify({ text: line.text, voice: character?.voice, direction: line.direction?.trim() || undefined, spoken: getRespelling(line.text, lexicon) });
+
+export const isStaleLine = (line: ScriptLine, characters: Character[], lexicon: LexiconEntry[]) =>
+  !!line.audio && line.generatedFrom !== undefined &&
+  line.generatedFrom !== getLineGenerationKey(line, characters.find(c => c.id === line.characterId), lexicon);
+
+export const lineNeedsGeneration = (line: ScriptLine, characters: Character[], lexicon: LexiconEntry[]) =>
+  !line.audio || line.status === 'error' || isStaleLine(line, characters, lexicon);
+
+// Joins the per-line clips in script order. Lines without any text are skipped.
+export async function assembleDialogueLines(
+  script: ScriptLine[],
+  gapSeconds: number,
+  ctx: BaseAudioContext
+): Promise<AudioBuffer> {
+  const spoken = script.filter(line => line.text.trim());
+  const missing = spoken.filter(line => !line.audio).length;
+  if (missing > 0) {
+    throw new Error(`${missing} line${missing === 1 ? ' has' : 's have'} no audio yet. Generate ${missing === 1 ? 'it' : 'them'} first.`);
+  }
+
+  const parts: AudioBuffer[] = [];
+  for (const line of spoken) {
+    if (parts.length > 0 && gapSeconds > 0) parts.push(createSilence(gapSeconds, ctx));
+    parts.push(await decodeAudioFile(line.audio!.blob, ctx));
+  }
+  return concatAudioBuffers(parts, ctx);
+}
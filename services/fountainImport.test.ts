@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Character, VoiceName } from "../types";
+import { createVoiceAssigner, parseFountain } from "./fountainImport";
+
+const screenplay = `Title: The Kettle
+Author: Someone
+
+INT. KITCHEN - DAY
+
+The kettle whistles.
+
+MARY JANE
+(whispering)
+Is it ready?
+(louder)
+Is it ready yet?
+
+JOHN (V.O.)
+Nearly.
+/* Cut: JOHN
+Later. */
+
+@McCLANE
+Yippee.
+
+BOB
+
+CUT TO:
+
+EXT. GARDEN - NIGHT
+`;
+
+describe("parseFountain", () => {
+  const result = parseFountain(screenplay, []);
+  const speakers = (ids: string[]) => ids.map(id => result.characters.find(c => c.id === id)?.name);
+
+  it("turns character cues and dialogue into script lines", () => {
+    expect(result.script.map(({ text, direction, scene }) => ({ text, direction, scene }))).toEqual([
+      { text: 'Is it ready?', direction: 'whispering', scene: 'INT. KITCHEN - DAY' },
+      { text: 'Is it ready yet?', direction: 'louder', scene: undefined },
+      { text: 'Nearly.', direction: undefined, scene: undefined },
+      { text: 'Yippee.', direction: undefined, scene: undefined },
+    ]);
+    expect(speakers(result.script.map(line => line.characterId))).toEqual(['Mary Jane', 'Mary Jane', 'John', 'McCLANE']);
+  });
+
+  it("reports what it drops, skipping the title page, comments and transitions", () => {
+    expect(result.skipped).toEqual([
+      { lineNumber: 6, text: 'The kettle whistles.', reason: "Action or description (not spoken)" },
+      { lineNumber: 22, text: 'BOB', reason: "Action or description (not spoken)" },
+      { lineNumber: 27, text: 'EXT. GARDEN - NIGHT', reason: "Scene heading with no dialogue after it" },
+    ]);
+  });
+
+  it("keeps the voices of existing cast members", () => {
+    const cast: Character[] = [{ id: 'john', name: 'John', voice: VoiceName.Fenrir }];
+    const { characters } = parseFountain(screenplay, cast);
+    expect(characters.find(c => c.name === 'John')).toMatchObject({ id: 'john', voice: VoiceName.Fenrir });
+    expect(characters.filter(c => c.voice === VoiceName.Fenrir)).toHaveLength(1);
+  });
+});
+
+describe("createVoiceAssigner", () => {
+  it("hands out unused voices before reusing any", () => {
+    const assign = createVoiceAssigner([VoiceName.Kore]);
+    const voices = Object.values(VoiceName).slice(1).map(() => assign());
+    expect(new Set([VoiceName.Kore, ...voices]).size).toBe(Object.values(VoiceName).length);
+    expect(assign(VoiceName.Puck)).toBe(VoiceName.Puck);
+  });
+});
@@ -0,0 +1,166 @@
+import { Character, ScriptLine, VoiceName } from "../types";
+
+// Imports a Fountain screenplay (https://fountain.io) as a dialogue script.
+// Character cues and their dialogue become script lines, parentheticals become
+// the line's delivery direction and scene headings are kept as markers on the
+// first line of their scene. Everything else that isn't spoken is dropped;
+// action and other unrecognised text is reported back so nothing vanishes silently.
+
+export interface SkippedLine {
+  lineNumber: number;
+  text: string;
+  reason: string;
+}
+
+export interface ScriptImportResult {
+  characters: Character[];
+  script: ScriptLine[];
+  skipped: SkippedLine[];
+}
+
+const SCENE_HEADING = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const PARENTHETICAL = /^\(.*\)$/;
+
+// Dialogue can't be spoken by a cue like "(V.O.)" or "(CONT'D)", so those are
+// stripped, along with the caret that marks dual dialogue
+const cleanCue = (cue: string) => cue.replace(/\s*\^$/, '').replace(/\s*\(.*?\)/g, '').trim();
+
+const isCharacterCue = (line: string) => {
+  if (line.startsWith('@')) return true;
+  const name = cleanCue(line);
+  return /\p{Lu}/u.test(name) && name === name.toUpperCase() && !/^[!.>~=#]/.test(name);
+};
+
+// "MARY JANE" reads better as "Mary Jane"; forced mixed-case cues are kept as written
+const toDisplayName = (cue: string) => {
+  const name = cleanCue(cue.replace(/^@/, ''));
+  if (name !== name.toUpperCase()) return name;
+  return name.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
+};
+
+// Removes /* boneyard */ and [[notes]] while keeping line numbers intact
+const stripComments = (text: string) =>
+  text
+    .replace(/\/\*[\s\S]*?\*\//g, block => block.replace(/[^\n]/g, ''))
+    .replace(/\[\[[\s\S]*?\]\]/g, note => note.replace(/[^\n]/g, ''));
+
+// Hands out voices that nobody in the cast uses yet, then cycles through all of
+// them. A voice the caller already chose is recorded as taken and returned as is.
+export function createVoiceAssigner(taken: VoiceName[]) {
+  const used = new Set(taken);
+  const all = Object.values(VoiceName);
+  let next = 0;
+  return (chosen?: VoiceName): VoiceName => {
+    const voice = chosen ?? all.find(v => !used.has(v)) ?? all[next++ % all.length];
+    used.add(voice);
+    return voice;
+  };
+}
+
+// Finds a cast member by name, or adds one with a fresh voice. Existing
+// characters are matched case-insensitively so re-imports keep their voices
+// unless the imported file names one explicitly.
+export function createCastBuilder(existing: Character[]) {
+  const characters: Character[] = [];
+  const assignVoice = createVoiceAssigner(existing.map(c => c.voice));
+  return {
+    characters,
+    resolve: (name: string, voice?: VoiceName): Character => {
+      const key = name.toLowerCase();
+      const known = characters.find(c => c.name.toLowerCase() === key);
+      if (known) return known;
+      const previous = existing.find(c => c.name.toLowerCase() === key);
+      const character: Character = {
+        id: previous?.id ?? crypto.randomUUID(),
+        name,
+        voice: assignVoice(voice ?? previous?.voice),
+      };
+      characters.push(character);
+      return character;
+    },
+  };
+}
+
+export function parseFountain(text: string, existingCast: Character[]): ScriptImportResult {
+  const lines = stripComments(text).split(/\r?\n/);
+  const cast = createCastBuilder(existingCast);
+  const script: ScriptLine[] = [];
+  const skipped: SkippedLine[] = [];
+  let pendingScene: string | undefined;
+
+  const isBlank = (i: number) => i < 0 || i >= lines.length || lines[i].trim() === '';
+
+  // A title page is a block of "Key: value" lines at the very top
+  let i = 0;
+  if (/^[A-Za-z][\w ]*:/.test(lines[0]?.trim() ?? '')) {
+    while (i < lines.length && !isBlank(i)) i++;
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const lineNumber = i + 1;
+
+    // Sections, synopses, page breaks, centered text and lyrics aren't spoken
+    if (/^(#|=|>.*<$|~)/.test(line)) continue;
+
+    const forcedScene = line.startsWith('.') && !line.startsWith('..');
+    if (isBlank(i - 1) && (forcedScene || SCENE_HEADING.test(line))) {
+      pendingScene = (forcedScene ? line.slice(1) : line).replace(/\s*#[^#]*#$/, '').trim();
+      continue;
+    }
+
+    if (line.startsWith('>') || (isBlank(i - 1) && isBlank(i + 1) && TRANSITION.test(line))) continue;
+
+    if (isBlank(i - 1) && !isBlank(i + 1) && isCharacterCue(line)) {
+      const name = toDisplayName(line);
+      let direction: string | undefined;
+      let spoken: string[] = [];
+      let spokeAny = false;
+
+      const emit = () => {
+        if (spoken.length === 0) return;
+        script.push({
+          id: crypto.randomUUID(),
+          characterId: cast.resolve(name).id,
+          text: spoken.join(' '),
+          ...(direction ? { direction } : {}),
+          ...(pendingScene ? { scene: pendingScene } : {}),
+        });
+        pendingScene = undefined;
+        spoken = [];
+        spokeAny = true;
+      };
+
+      // The dialogue block runs until the next blank line
+      while (!isBlank(i + 1)) {
+        i++;
+        const blockLine = lines[i].trim();
+        if (PARENTHETICAL.test(blockLine)) {
+          // A parenthetical mid-speech starts a new line with its own delivery
+          emit();
+          direction = blockLine.slice(1, -1).trim();
+        } else {
+          spoken.push(blockLine.replace(/^~/, ''));
+        }
+      }
+
+      emit();
+      if (!spokeAny) skipped.push({ lineNumber, text: line, reason: "Character cue without dialogue" });
+      continue;
+    }
+
+    skipped.push({ lineNumber, text: line, reason: "Action or description (not spoken)" });
+  }
+
+  if (pendingScene) {
+    skipped.push({ lineNumber: lines.length, text: pendingScene, reason: "Scene heading with no dialogue after it" });
+  }
+
+  return {
+    characters: cast.characters,
+    script,
+    skipped,
+  };
+}
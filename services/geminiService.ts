@@ -1,10 +1,15 @@
 
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { VoiceName, Character, ScriptLine } from "../types";
+import { GoogleGenAI, Modality, GenerateContentResponse, FinishReason } from "@google/genai";
+import { VoiceName, ScriptLine } from "../types";
+import { SingleVoiceParams, DialogueParams, CloningParams, TtsProvider, SttProvider } from "./ttsProvider";
+import { withRetry, createRateLimiter, DEFAULT_RETRY_OPTIONS, RetryOptions } from "./requestPolicy";
+import { TtsError, SafetyBlockError, EmptyAudioError, classifyError } from "./ttsErrors";
 
 const API_KEY = process.env.API_KEY || '';
 
+export const isGeminiConfigured = () => API_KEY.length > 0;
+
 // Singleton instance helper
 let genAIInstance: GoogleGenAI | null = null;
 
@@ -15,29 +20,51 @@ const getGenAI = () => {
   return genAIInstance;
 };
 
-interface SingleVoiceParams {
-  text: string;
-  voice: VoiceName;
-}
-
-interface DialogueParams {
-  script: ScriptLine[];
-  characters: Character[];
-}
-
-interface CloningParams {
-  text: string;
-  referenceAudio: string; // Base64 string of the audio file
-  mimeType: string;
-}
+// Client-side throttle so batch generation stays under the per-minute quota
+// instead of bouncing off 429s
+const REQUESTS_PER_MINUTE = 10;
+const rateLimiter = createRateLimiter(REQUESTS_PER_MINUTE, 60_000);
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// Sends a request through the rate limiter, retrying transient failures.
+// The signal also ends any wait for a retry or a free slot.
+const callGemini = <T>(request: (ai: GoogleGenAI) => Promise<T>, retry: RetryOptions = DEFAULT_RETRY_OPTIONS, signal?: AbortSignal) =>
+  withRetry(async () => {
+    await rateLimiter.acquire(signal);
+    return request(getGenAI());
+  }, retry, signal);
+
+// The TTS model takes delivery instructions in the prompt itself; phrasing them
+// as an instruction followed by the text keeps them from being read aloud.
+const withDirection = (text: string, direction?: string) =>
+  direction?.trim() ? `Say the following in this style (${direction.trim()}):\n${text}` : text;
+
+// Pulls the audio out of a response, or explains why there is none
+const extractAudio = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(blockReason);
+
+  const candidate = response.candidates?.[0];
+  const base64Audio = candidate?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+  if (base64Audio) return base64Audio;
+
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new SafetyBlockError(candidate.finishReason);
+  }
+  throw new EmptyAudioError();
+};
 
 export async function generateSingleVoice(params: SingleVoiceParams): Promise<string> {
-  const ai = getGenAI();
-  
   try {
-    const response = await ai.models.generateContent({
+    return await callGemini(async ai => extractAudio(await ai.models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: params.text }] }],
+      contents: [{ parts: [{ text: withDirection(params.text, params.direction) }] }],
       config: {
         responseModalities: [Modality.AUDIO], 
         speechConfig: {
@@ -45,14 +72,9 @@ export async function generateSingleVoice(params: SingleVoiceParams): Promise<st
             prebuiltVoiceConfig: { voiceName: params.voice },
           },
         },
+        abortSignal: params.signal,
       },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-      throw new Error("No audio data returned from Gemini API");
-    }
-    return base64Audio;
+    })), DEFAULT_RETRY_OPTIONS, params.signal);
   } catch (error) {
     console.error("Gemini TTS Error:", error);
     throw error;
@@ -60,16 +82,20 @@ export async function generateSingleVoice(params: SingleVoiceParams): Promise<st
 }
 
 export async function generateDialogue(params: DialogueParams): Promise<string> {
-  const ai = getGenAI();
-  
   // Construct the multi-speaker prompt
-  const promptText = params.script
-    .map((line) => {
-      const char = params.characters.find(c => c.id === line.characterId);
-      return `${char ? char.name : 'Unknown'}: ${line.text}`;
-    })
+  const speakerName = (line: ScriptLine) => params.characters.find(c => c.id === line.characterId)?.name ?? 'Unknown';
+  const transcript = params.script
+    .map(line => `${speakerName(line)}: ${line.text}`)
     .join('\n');
 
+  // Per-line directions go in a preamble so the transcript lines stay exactly what is spoken
+  const directions = params.script
+    .map((line, i) => line.direction?.trim() ? `- Line ${i + 1} (${speakerName(line)}): ${line.direction.trim()}` : null)
+    .filter(Boolean);
+  const promptText = directions.length > 0
+    ? `Perform the conversation below. Deliver these lines as directed:\n${directions.join('\n')}\n\nConversation:\n${transcript}`
+    : transcript;
+
   // Configure speakers
   const speakerVoiceConfigs = params.characters.map(char => ({
     speaker: char.name,
@@ -79,7 +105,7 @@ export async function generateDialogue(params: DialogueParams): Promise<string>
   }));
 
   try {
-    const response = await ai.models.generateContent({
+    return await callGemini(async ai => extractAudio(await ai.models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
       contents: [{ parts: [{ text: promptText }] }],
       config: {
@@ -89,14 +115,9 @@ export async function generateDialogue(params: DialogueParams): Promise<string>
             speakerVoiceConfigs: speakerVoiceConfigs
           }
         },
+        abortSignal: params.signal,
       },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-      throw new Error("No audio data returned from Gemini API");
-    }
-    return base64Audio;
+    })), DEFAULT_RETRY_OPTIONS, params.signal);
   } catch (error) {
     console.error("Gemini TTS Dialogue Error:", error);
     throw error;
@@ -104,11 +125,9 @@ export async function generateDialogue(params: DialogueParams): Promise<string>
 }
 
 export async function generateClonedSpeech(params: CloningParams): Promise<string> {
-  const ai = getGenAI();
-
   try {
-    // Attempt 1: Try Gemini 2.0 Flash (Native Audio)
-    const response = await ai.models.generateContent({
+    // Attempt 1: Try Gemini 2.0 Flash (Native Audio). Not retried: any failure goes straight to the fallback.
+    return await callGemini(async ai => extractAudio(await ai.models.generateContent({
       model: 'gemini-2.0-flash-exp',
       contents: [{
         parts: [
@@ -127,24 +146,7 @@ export async function generateClonedSpeech(params: CloningParams): Promise<strin
         // Use string 'AUDIO' to avoid "unsupported response modality: 4" error on the experimental model
         responseModalities: ['AUDIO' as any],
       }
-    });
-
-    let base64Audio = '';
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          base64Audio = part.inlineData.data;
-          break;
-        }
-      }
-    }
-
-    if (!base64Audio) {
-       throw new Error("Model returned no audio data.");
-    }
-
-    return base64Audio;
+    })), { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 });
 
   } catch (error: any) {
     console.warn("Native Cloning failed (likely due to access restrictions), falling back to Standard TTS.", error);
@@ -156,17 +158,17 @@ export async function generateClonedSpeech(params: CloningParams): Promise<strin
             voice: VoiceName.Aoede 
         });
     } catch (fallbackError: any) {
-        // Throw the fallback error so we know why the backup failed
-        throw new Error(`Voice Generation failed. Native error: ${error.message}. Fallback error: ${fallbackError.message}`);
+        // Throw the fallback error so we know why the backup failed; its type decides whether a retry can help
+        const typed = classifyError(fallbackError);
+        typed.message = `Voice Generation failed. Native error: ${error.message}. Fallback error: ${typed.message}`;
+        throw typed;
     }
   }
 }
 
 export async function transcribeAudio(base64Audio: string, mimeType: string): Promise<string> {
-  const ai = getGenAI();
-  
   try {
-    const response = await ai.models.generateContent({
+    const response = await callGemini(ai => ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: [
         {
@@ -176,10 +178,13 @@ export async function transcribeAudio(base64Audio: string, mimeType: string): Pr
           ]
         }
       ]
-    });
+    }));
 
     if (!response.text) {
-        throw new Error("No transcription generated.");
+        throw new TtsError("No transcription generated.", {
+          retryable: true,
+          hint: "Retrying may help. Make sure the recording actually contains speech."
+        });
     }
 
     return response.text;
@@ -187,4 +192,13 @@ export async function transcribeAudio(base64Audio: string, mimeType: string): Pr
     console.error("Gemini Transcription Error:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export const geminiProvider: TtsProvider & SttProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  generateSingleVoice,
+  generateDialogue,
+  generateClonedSpeech,
+  transcribeAudio,
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { Snippet, VoiceName } from "../types";
+import { createGenerationQueue, getGenerationKey, isStaleAudio, QueueProgress, QueueTask } from "./generationQueue";
+import { createLexiconEntry } from "./lexicon";
+
+// A task that settles when the test says so
+function deferredTask(id: string) {
+  let settle!: (ok: boolean) => void;
+  let signal: AbortSignal | undefined;
+  const task: QueueTask = {
+    id,
+    run: s => {
+      signal = s;
+      return new Promise<boolean>(resolve => { settle = resolve; });
+    },
+  };
+  return {
+    task,
+    settle: async (ok: boolean) => {
+      settle(ok);
+      await flush();
+    },
+    started: () => signal !== undefined,
+    aborted: () => !!signal?.aborted,
+  };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function setup() {
+  let progress: QueueProgress | undefined;
+  const queue = createGenerationQueue(p => { progress = p; });
+  return { queue, progress: () => progress! };
+}
+
+describe("createGenerationQueue", () => {
+  it("runs tasks up to the concurrency limit and counts the outcomes", async () => {
+    const { queue, progress } = setup();
+    const [a, b, c] = ['a', 'b', 'c'].map(deferredTask);
+    queue.enqueue([a.task, b.task, c.task]);
+    expect([a.started(), b.started(), c.started()]).toEqual([true, true, false]);
+    expect(progress()).toMatchObject({ total: 3, running: 2, pending: 1 });
+
+    await a.settle(true);
+    expect(c.started()).toBe(true);
+    await b.settle(false);
+    await c.settle(true);
+    expect(progress()).toMatchObject({ total: 3, completed: 2, failed: 1, running: 0, pending: 0 });
+  });
+
+  it("starts nothing new while paused", async () => {
+    const { queue, progress } = setup();
+    queue.setConcurrency(1);
+    const [a, b] = ['a', 'b'].map(deferredTask);
+    queue.enqueue([a.task, b.task]);
+    queue.pause();
+    await a.settle(true);
+    expect(b.started()).toBe(false);
+    expect(progress()).toMatchObject({ isPaused: true, completed: 1, pending: 1 });
+
+    queue.resume();
+    expect(b.started()).toBe(true);
+  });
+
+  it("counts pending and running tasks as cancelled at once, and only once", async () => {
+    const { queue, progress } = setup();
+    const [a, b, c] = ['a', 'b', 'c'].map(deferredTask);
+    queue.enqueue([a.task, b.task, c.task]);
+    queue.cancel();
+    expect([a.aborted(), b.aborted()]).toEqual([true, true]);
+    expect(progress()).toMatchObject({ cancelled: 3, running: 0, pending: 0 });
+    expect(queue.has('a')).toBe(false);
+
+    await a.settle(false);
+    await b.settle(true);
+    expect(c.started()).toBe(false);
+    expect(progress()).toMatchObject({ completed: 0, failed: 0, cancelled: 3 });
+  });
+
+  it("holds a re-queued task until its cancelled run settles", async () => {
+    const { queue } = setup();
+    const first = deferredTask('a');
+    queue.enqueue([first.task]);
+    queue.cancel();
+
+    const again = deferredTask('a');
+    const other = deferredTask('b');
+    queue.enqueue([again.task, other.task]);
+    expect(again.started()).toBe(false);
+    expect(other.started()).toBe(true);
+
+    await first.settle(false);
+    expect(again.started()).toBe(true);
+  });
+});
+
+describe("getGenerationKey", () => {
+  const section: Snippet = {
+    id: 's', name: 'Intro', text: 'Welcome to Nginx.', voice: VoiceName.Kore,
+    audio: null, status: 'success', error: null, subsections: [],
+  };
+  const lexicon = [createLexiconEntry({ term: 'nginx', replacement: 'engine x' })];
+
+  it("matches keys from before directions and respellings existed", () => {
+    expect(getGenerationKey(section, [])).toBe(JSON.stringify({ text: section.text, voice: section.voice }));
+    expect(getGenerationKey({ ...section, direction: '  ' }, [createLexiconEntry({ term: 'other', replacement: 'x' })]))
+      .toBe(getGenerationKey(section, []));
+  });
+
+  it("marks audio as stale when the lexicon changes what is spoken", () => {
+    const audio = { blob: new Blob(), url: 'blob:clip', duration: 1 };
+    const generated = { ...section, audio, generatedFrom: getGenerationKey(section, []) };
+    expect(isStaleAudio(generated, [])).toBe(false);
+    expect(isStaleAudio(generated, lexicon)).toBe(true);
+    expect(isStaleAudio({ ...generated, generatedFrom: getGenerationKey(section, lexicon) }, lexicon)).toBe(false);
+  });
+});
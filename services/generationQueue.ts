@@ -0,0 +1,135 @@
+import { LexiconEntry, Snippet, Subsection } from "../types";
+import { getRespelling } from "./lexicon";
+
+// Batch generation for sections and subsections. Tasks run with a concurrency
+// limit; pausing stops new tasks from starting, cancelling also aborts the
+// ones in flight through their AbortSignal.
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+export interface QueueTask {
+  id: string;
+  // Resolves true when audio was produced, false when generation failed
+  run: (signal: AbortSignal) => Promise<boolean>;
+}
+
+export interface QueueProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  running: number;
+  pending: number;
+  isPaused: boolean;
+}
+
+export interface GenerationQueue {
+  enqueue: (tasks: QueueTask[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  setConcurrency: (limit: number) => void;
+  has: (id: string) => boolean;
+}
+
+export const IDLE_QUEUE_PROGRESS: QueueProgress = {
+  total: 0, completed: 0, failed: 0, cancelled: 0, running: 0, pending: 0, isPaused: false,
+};
+
+export const isQueueActive = (progress: QueueProgress) => progress.running + progress.pending > 0;
+
+// Identifies the input a clip was generated from, so edits can be detected.
+// An empty direction is left out so keys from before directions existed still match,
+// and the lexicon's respelling only counts when it changes what is spoken.
+export const getGenerationKey = (item: Pick<Snippet | Subsection, 'text' | 'voice' | 'direction'>, lexicon: LexiconEntry[]) =>
+  JSON.stringify({ text: item.text, voice: item.voice, direction: item.direction?.trim() || undefined, spoken: getRespelling(item.text, lexicon) });
+
+export const isStaleAudio = (item: Snippet | Subsection, lexicon: LexiconEntry[]) =>
+  !!item.audio && item.generatedFrom !== undefined && item.generatedFrom !== getGenerationKey(item, lexicon);
+
+export const needsGeneration = (item: Snippet | Subsection, lexicon: LexiconEntry[]) =>
+  item.status === 'idle' || item.status === 'error' || (item.status === 'success' && isStaleAudio(item, lexicon));
+
+export function createGenerationQueue(onProgress: (progress: QueueProgress) => void): GenerationQueue {
+  let concurrency = DEFAULT_QUEUE_CONCURRENCY;
+  let paused = false;
+  let pending: QueueTask[] = [];
+  const running = new Map<string, AbortController>();
+  // Cancelled tasks whose request hasn't settled yet. They are no longer part of
+  // the queue, but a new task for the same id waits for them so the two don't overlap.
+  const settling = new Set<string>();
+  let counts = { total: 0, completed: 0, failed: 0, cancelled: 0 };
+
+  const emit = () => onProgress({
+    ...counts,
+    running: running.size,
+    pending: pending.length,
+    isPaused: paused,
+  });
+
+  const start = (task: QueueTask) => {
+    const controller = new AbortController();
+    running.set(task.id, controller);
+    // Cancelled tasks were counted when they were cancelled
+    task.run(controller.signal)
+      .then(ok => {
+        if (controller.signal.aborted) return;
+        if (ok) counts.completed++;
+        else counts.failed++;
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) counts.failed++;
+      })
+      .finally(() => {
+        running.delete(task.id);
+        settling.delete(task.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    while (!paused && running.size < concurrency) {
+      const next = pending.findIndex(t => !settling.has(t.id));
+      if (next === -1) break;
+      start(pending.splice(next, 1)[0]);
+    }
+    emit();
+  };
+
+  return {
+    enqueue: (tasks) => {
+      // A finished batch starts counting from zero again
+      if (running.size === 0 && pending.length === 0) {
+        counts = { total: 0, completed: 0, failed: 0, cancelled: 0 };
+      }
+      const fresh = tasks.filter(t => !running.has(t.id) && !pending.some(p => p.id === t.id));
+      pending = [...pending, ...fresh];
+      counts.total += fresh.length;
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: () => {
+      counts.cancelled += pending.length + running.size;
+      pending = [];
+      paused = false;
+      running.forEach((controller, id) => {
+        controller.abort();
+        settling.add(id);
+      });
+      running.clear();
+      emit();
+    },
+    setConcurrency: (limit) => {
+      concurrency = Math.max(1, Math.floor(limit));
+      pump();
+    },
+    has: (id) => running.has(id) || pending.some(p => p.id === id),
+  };
+}
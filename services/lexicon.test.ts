@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { LexiconEntry } from "../types";
+import { applyLexicon, createLexiconEntry, exportLexiconCsv, exportLexiconJson, getRespelling, importLexicon, mergeLexicon, segmentWithLexicon } from "./lexicon";
+
+const entry = (term: string, replacement: string, changes: Partial<LexiconEntry> = {}) =>
+  createLexiconEntry({ term, replacement, ...changes });
+
+const withoutIds = (entries: LexiconEntry[]) => entries.map(({ id, ...rest }) => rest);
+
+describe("applyLexicon", () => {
+  it("replaces whole words regardless of case by default", () => {
+    expect(applyLexicon('Nginx and nginx, not nginxes', [entry('nginx', 'engine x')])).toBe('engine x and engine x, not nginxes');
+  });
+
+  it("honours case sensitivity and partial matches", () => {
+    expect(applyLexicon('SQL sql', [entry('SQL', 'sequel', { caseSensitive: true })])).toBe('sequel sql');
+    expect(applyLexicon('Kubernetes', [entry('netes', 'neeties', { wholeWord: false })])).toBe('Kuberneeties');
+  });
+
+  it("treats letters in any script as part of a word", () => {
+    expect(applyLexicon('café cafébar', [entry('café', 'kaffay')])).toBe('kaffay cafébar');
+  });
+
+  it("never substitutes a replacement again", () => {
+    expect(applyLexicon('A B', [entry('A', 'B'), entry('B', 'C')])).toBe('B C');
+  });
+
+  it("prefers the earliest, then the longest overlapping match", () => {
+    const entries = [entry('New', 'Noo'), entry('New York', 'Noo Yawk')];
+    expect(segmentWithLexicon('New York', entries)).toEqual([{ type: 'replaced', original: 'New York', text: 'Noo Yawk' }]);
+  });
+
+  it("ignores entries without a term", () => {
+    expect(applyLexicon('text', [entry('  ', 'x')])).toBe('text');
+  });
+});
+
+describe("getRespelling", () => {
+  it("is undefined unless an entry changes the text", () => {
+    expect(getRespelling('Hello', [])).toBeUndefined();
+    expect(getRespelling('Hello', [entry('world', 'wurld')])).toBeUndefined();
+    expect(getRespelling('Hello world', [entry('world', 'wurld')])).toBe('Hello wurld');
+  });
+});
+
+describe("importLexicon", () => {
+  const entries = [entry('GIF', 'jif', { caseSensitive: true }), entry('ne', 'nay', { wholeWord: false })];
+
+  it("reads back its own JSON and CSV exports", async () => {
+    const json = new File([await exportLexiconJson(entries).text()], 'lexicon.json');
+    const csv = new File([await exportLexiconCsv(entries).text()], 'lexicon.csv');
+    expect(withoutIds(await importLexicon(json))).toEqual(withoutIds(entries));
+    expect(withoutIds(await importLexicon(csv))).toEqual(withoutIds(entries));
+  });
+
+  it("accepts a bare JSON array and skips malformed entries", async () => {
+    const file = new File([JSON.stringify([{ term: 'SQL', replacement: 'sequel' }, { term: 1 }, null, 'x'])], 'list.json');
+    expect(withoutIds(await importLexicon(file))).toEqual([{ term: 'SQL', replacement: 'sequel', caseSensitive: false, wholeWord: true }]);
+  });
+
+  it("explains files that hold no lexicon", async () => {
+    await expect(importLexicon(new File(['{ nope'], 'bad.json'))).rejects.toThrow("not valid JSON");
+    await expect(importLexicon(new File(['{"other": 1}'], 'other.json'))).rejects.toThrow("does not contain a lexicon");
+    await expect(importLexicon(new File(['term,replacement\n'], 'empty.csv'))).rejects.toThrow("no lexicon entries");
+  });
+});
+
+describe("mergeLexicon", () => {
+  it("replaces entries for the same term and keeps the rest", () => {
+    const merged = mergeLexicon([entry('a', '1'), entry('b', '2')], [entry('b', '3')]);
+    expect(merged.map(e => `${e.term}=${e.replacement}`)).toEqual(['a=1', 'b=3']);
+  });
+});
@@ -0,0 +1,154 @@
+import { LexiconEntry } from "../types";
+import { TtsProvider } from "./ttsProvider";
+import { parseCsv, toCsv } from "../utils/csv";
+
+// Project pronunciation lexicon. Terms are swapped for their respelling right
+// before text is sent to a TTS provider; the text in the editor never changes.
+
+export const LEXICON_FORMAT = 'narrator-voice-studio-lexicon';
+export const LEXICON_VERSION = 1;
+
+const CSV_HEADER = ['term', 'replacement', 'case_sensitive', 'whole_word'];
+
+export type LexiconSegment =
+  | { type: 'text'; text: string }
+  | { type: 'replaced'; original: string; text: string };
+
+export const createLexiconEntry = (changes: Partial<LexiconEntry> = {}): LexiconEntry => ({
+  id: crypto.randomUUID(),
+  term: '',
+  replacement: '',
+  caseSensitive: false,
+  wholeWord: true,
+  ...changes,
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compileEntry = (entry: LexiconEntry) => {
+  const term = escapeRegExp(entry.term.trim());
+  // Letters and digits in any script count as word characters
+  const pattern = entry.wholeWord ? `(?<![\\p{L}\\p{N}_])${term}(?![\\p{L}\\p{N}_])` : term;
+  return new RegExp(pattern, entry.caseSensitive ? 'gu' : 'giu');
+};
+
+// Splits text into unchanged and substituted pieces. All entries are matched
+// against the original text in one pass, so a replacement is never substituted
+// again; where matches overlap, the earliest and then the longest one wins.
+export function segmentWithLexicon(text: string, entries: LexiconEntry[]): LexiconSegment[] {
+  const matches: { start: number; end: number; replacement: string }[] = [];
+  for (const entry of entries) {
+    if (!entry.term.trim()) continue;
+    for (const match of text.matchAll(compileEntry(entry))) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, replacement: entry.replacement });
+    }
+  }
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: LexiconSegment[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.start < position) continue;
+    if (match.start > position) segments.push({ type: 'text', text: text.slice(position, match.start) });
+    segments.push({ type: 'replaced', original: text.slice(match.start, match.end), text: match.replacement });
+    position = match.end;
+  }
+  if (position < text.length) segments.push({ type: 'text', text: text.slice(position) });
+  return segments;
+}
+
+export const applyLexicon = (text: string, entries: LexiconEntry[]) =>
+  entries.length === 0 ? text : segmentWithLexicon(text, entries).map(s => s.text).join('');
+
+// The lexicon's version of a text, or undefined when no entry changes it
+export const getRespelling = (text: string, entries: LexiconEntry[]) => {
+  const spoken = applyLexicon(text, entries);
+  return spoken === text ? undefined : spoken;
+};
+
+// Wraps a provider so every text it speaks goes through the lexicon first
+export function withLexicon(provider: TtsProvider, entries: LexiconEntry[]): TtsProvider {
+  if (entries.length === 0) return provider;
+  const apply = (text: string) => applyLexicon(text, entries);
+  return {
+    ...provider,
+    generateSingleVoice: (params) => provider.generateSingleVoice({ ...params, text: apply(params.text) }),
+    generateDialogue: (params) => provider.generateDialogue({
+      ...params,
+      script: params.script.map(line => ({ ...line, text: apply(line.text) })),
+    }),
+    generateClonedSpeech: (params) => provider.generateClonedSpeech({ ...params, text: apply(params.text) }),
+  };
+}
+
+export function exportLexiconJson(entries: LexiconEntry[]): Blob {
+  const data = {
+    format: LEXICON_FORMAT,
+    version: LEXICON_VERSION,
+    entries: entries.map(({ term, replacement, caseSensitive, wholeWord }) => ({ term, replacement, caseSensitive, wholeWord })),
+  };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
+
+export function exportLexiconCsv(entries: LexiconEntry[]): Blob {
+  const rows = entries.map(e => [e.term, e.replacement, String(e.caseSensitive), String(e.wholeWord)]);
+  return new Blob([toCsv([CSV_HEADER, ...rows])], { type: 'text/csv' });
+}
+
+const parseFlag = (value: string | undefined, fallback: boolean) => {
+  if (value === undefined || value.trim() === '') return fallback;
+  return /^(true|yes|y|1)$/i.test(value.trim());
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJsonLexicon = (text: string): LexiconEntry[] => {
+  const data: unknown = JSON.parse(text);
+  // Accept a bare array as well as the exported wrapper
+  const list = Array.isArray(data) ? data : isRecord(data) ? data.entries : undefined;
+  if (!Array.isArray(list)) throw new Error("This JSON file does not contain a lexicon.");
+  return list.flatMap((e: unknown) => {
+    if (!isRecord(e) || typeof e.term !== 'string' || typeof e.replacement !== 'string') return [];
+    return [createLexiconEntry({
+      term: e.term,
+      replacement: e.replacement,
+      caseSensitive: !!e.caseSensitive,
+      wholeWord: e.wholeWord === undefined ? true : !!e.wholeWord,
+    })];
+  });
+};
+
+const parseCsvLexicon = (text: string): LexiconEntry[] => {
+  const rows = parseCsv(text);
+  // The header row is optional
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'term') rows.shift();
+  return rows
+    .filter(row => row.length >= 2 && row[0].trim())
+    .map(row => createLexiconEntry({
+      term: row[0],
+      replacement: row[1],
+      caseSensitive: parseFlag(row[2], false),
+      wholeWord: parseFlag(row[3], true),
+    }));
+};
+
+// Reads a lexicon exported as JSON or CSV (detected from the file name, then the content)
+export async function importLexicon(file: File): Promise<LexiconEntry[]> {
+  const text = await file.text();
+  const isJson = /\.json$/i.test(file.name) || (!/\.csv$/i.test(file.name) && /^\s*[[{]/.test(text));
+  try {
+    const entries = isJson ? parseJsonLexicon(text) : parseCsvLexicon(text);
+    if (entries.length === 0) throw new Error("The file contains no lexicon entries.");
+    return entries;
+  } catch (err: any) {
+    if (err instanceof SyntaxError) throw new Error("The lexicon file is not valid JSON.");
+    throw err;
+  }
+}
+
+// Adds imported entries, replacing existing ones for the same term
+export function mergeLexicon(current: LexiconEntry[], imported: LexiconEntry[]): LexiconEntry[] {
+  const importedTerms = new Set(imported.map(e => e.term.trim()));
+  return [...current.filter(e => !importedTerms.has(e.term.trim())), ...imported];
+}
@@ -0,0 +1,51 @@
+import { LoudnessSettings } from "../types";
+import {
+  applyGainWithLimiter, bufferToWavBlob, decodeAudioFile, integrateLoudness, measureLoudnessBlocks, normalizeLoudness, TTS_SAMPLE_RATE
+} from "../utils/audioUtils";
+
+// Loudness normalization of generated clips and exports, so sections don't
+// jump in volume however loud the model happened to render them.
+
+export const LOUDNESS_PRESETS = [
+  { label: 'Podcast / streaming', lufs: -16 },
+  { label: 'Broadcast (EBU R128)', lufs: -23 },
+  { label: 'US broadcast (ATSC A/85)', lufs: -24 },
+  { label: 'Music platforms', lufs: -14 },
+];
+
+export const DEFAULT_LOUDNESS_SETTINGS: LoudnessSettings = {
+  targetLufs: null,
+  truePeakDbtp: -1,
+  scope: 'clip',
+};
+
+// Applied to each clip as it is generated. With the project scope clips are
+// left as they are and only the export is adjusted.
+export function normalizeGeneratedAudio(buffer: AudioBuffer, settings: LoudnessSettings, ctx: BaseAudioContext): AudioBuffer {
+  if (settings.targetLufs === null || settings.scope !== 'clip') return buffer;
+  return normalizeLoudness(buffer, settings.targetLufs, settings.truePeakDbtp, ctx);
+}
+
+// A single rendered program is one clip whatever the scope
+export function normalizeProgram(buffer: AudioBuffer, settings: LoudnessSettings, ctx: BaseAudioContext): AudioBuffer {
+  if (settings.targetLufs === null) return buffer;
+  return normalizeLoudness(buffer, settings.targetLufs, settings.truePeakDbtp, ctx);
+}
+
+// Normalizes a set of exported clips. The project scope measures every clip's
+// gated blocks together, so the loudness of the set hits the target.
+export async function normalizeForExport(clips: Blob[], settings: LoudnessSettings): Promise<Blob[]> {
+  if (settings.targetLufs === null || clips.length === 0) return clips;
+  const target = settings.targetLufs;
+
+  const ctx = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+  const buffers = await Promise.all(clips.map(clip => decodeAudioFile(clip, ctx)));
+
+  if (settings.scope === 'clip') {
+    return buffers.map(buffer => bufferToWavBlob(normalizeLoudness(buffer, target, settings.truePeakDbtp, ctx)));
+  }
+
+  const loudness = integrateLoudness(buffers.flatMap(measureLoudnessBlocks));
+  if (!isFinite(loudness)) return clips;
+  return buffers.map(buffer => bufferToWavBlob(applyGainWithLimiter(buffer, target - loudness, settings.truePeakDbtp, ctx)));
+}
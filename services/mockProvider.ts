@@ -0,0 +1,104 @@
+import { VoiceName } from "../types";
+import { uint8ArrayToBase64 } from "../utils/audioUtils";
+import { SingleVoiceParams, DialogueParams, CloningParams, TtsProvider, SttProvider } from "./ttsProvider";
+
+// Offline provider for development, demos and tests. Output is deterministic:
+// the same text and voice always produce the same samples, with a length
+// proportional to the text so timing-dependent UI behaves realistically.
+
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_CHAR = 0.06;
+const WORD_GAP_SECONDS = 0.08;
+const SENTENCE_GAP_SECONDS = 0.35;
+const LINE_GAP_SECONDS = 0.4;
+const SIMULATED_LATENCY_MS = 300;
+
+// Each voice gets its own pitch so they are distinguishable by ear
+const VOICE_PITCH: Record<VoiceName, number> = {
+  [VoiceName.Kore]: 220,
+  [VoiceName.Puck]: 330,
+  [VoiceName.Charon]: 110,
+  [VoiceName.Fenrir]: 147,
+  [VoiceName.Aoede]: 262,
+};
+
+const CLONE_PITCH = 196;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Renders text as a sequence of tone bursts (one per word) separated by silence
+function synthesizeText(text: string, pitch: number): Float32Array[] {
+  const segments: Float32Array[] = [];
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+
+  words.forEach((word, i) => {
+    const frames = Math.round(word.length * SECONDS_PER_CHAR * SAMPLE_RATE);
+    const tone = new Float32Array(frames);
+    // Slight per-word pitch movement so it doesn't sound like a single beep
+    const freq = pitch * (1 + ((i % 3) - 1) * 0.06);
+    const fade = Math.min(240, Math.floor(frames / 2));
+    for (let n = 0; n < frames; n++) {
+      const envelope = Math.min(1, n / fade, (frames - n) / fade);
+      tone[n] = 0.25 * envelope * Math.sin((2 * Math.PI * freq * n) / SAMPLE_RATE);
+    }
+    segments.push(tone);
+
+    const gap = /[.!?]["')\]]*$/.test(word) ? SENTENCE_GAP_SECONDS : WORD_GAP_SECONDS;
+    segments.push(new Float32Array(Math.round(gap * SAMPLE_RATE)));
+  });
+
+  if (segments.length === 0) {
+    segments.push(new Float32Array(Math.round(0.5 * SAMPLE_RATE)));
+  }
+  return segments;
+}
+
+// Packs float segments into base64 raw PCM16, matching what the Gemini TTS models return
+function encodePcm16(segments: Float32Array[]): string {
+  const frameCount = segments.reduce((sum, seg) => sum + seg.length, 0);
+  const pcm = new Int16Array(frameCount);
+  let offset = 0;
+  for (const seg of segments) {
+    for (let n = 0; n < seg.length; n++) {
+      pcm[offset++] = Math.round(Math.max(-1, Math.min(1, seg[n])) * 32767);
+    }
+  }
+  return uint8ArrayToBase64(new Uint8Array(pcm.buffer));
+}
+
+export async function generateSingleVoice(params: SingleVoiceParams): Promise<string> {
+  await wait(SIMULATED_LATENCY_MS);
+  return encodePcm16(synthesizeText(params.text, VOICE_PITCH[params.voice]));
+}
+
+export async function generateDialogue(params: DialogueParams): Promise<string> {
+  await wait(SIMULATED_LATENCY_MS);
+  const segments: Float32Array[] = [];
+  for (const line of params.script) {
+    const char = params.characters.find(c => c.id === line.characterId);
+    const pitch = char ? VOICE_PITCH[char.voice] : VOICE_PITCH[VoiceName.Kore];
+    segments.push(...synthesizeText(line.text, pitch));
+    segments.push(new Float32Array(Math.round(LINE_GAP_SECONDS * SAMPLE_RATE)));
+  }
+  return encodePcm16(segments);
+}
+
+export async function generateClonedSpeech(params: CloningParams): Promise<string> {
+  await wait(SIMULATED_LATENCY_MS);
+  return encodePcm16(synthesizeText(params.text, CLONE_PITCH));
+}
+
+export async function transcribeAudio(base64Audio: string, mimeType: string): Promise<string> {
+  await wait(SIMULATED_LATENCY_MS);
+  const approxKb = Math.round((base64Audio.length * 3) / 4 / 1024);
+  return `[Mock transcript of ${approxKb} KB ${mimeType} audio] The quick brown fox jumps over the lazy dog.`;
+}
+
+export const mockProvider: TtsProvider & SttProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  generateSingleVoice,
+  generateDialogue,
+  generateClonedSpeech,
+  transcribeAudio,
+};
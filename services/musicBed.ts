@@ -0,0 +1,115 @@
+import { MusicBedSettings } from "../types";
+import { decodeAudioFile } from "../utils/audioUtils";
+
+// Mixes a music bed under rendered speech. The bed is looped or trimmed to the
+// speech length, faded in and out, and ducked with a gain envelope derived from
+// the speech itself, like a sidechain compressor keyed from the narration.
+
+export const DEFAULT_MUSIC_BED: MusicBedSettings = {
+  audio: null,
+  fit: 'loop',
+  gainDb: -18,
+  fadeInSeconds: 2,
+  fadeOutSeconds: 3,
+  duckDb: -12,
+};
+
+// Envelope analysis: speech louder than the threshold in a block counts as talking
+const BLOCK_SECONDS = 0.01;
+const SPEECH_THRESHOLD_DB = -45;
+// The duck starts this early so it is fully down when the first word lands
+const DUCK_ATTACK_SECONDS = 0.15;
+// ...and recovers this slowly so the music doesn't pump between words
+const DUCK_RELEASE_SECONDS = 0.6;
+const DUCK_HOLD_SECONDS = 0.3;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Per-block gain (1 = untouched, duck gain while speaking), smoothed with
+// separate attack and release times
+export function computeDuckingEnvelope(speech: AudioBuffer, duckDb: number): Float32Array {
+  const blockFrames = Math.max(1, Math.round(BLOCK_SECONDS * speech.sampleRate));
+  const blocks = Math.ceil(speech.length / blockFrames);
+  const threshold = dbToGain(SPEECH_THRESHOLD_DB);
+
+  const active = new Uint8Array(blocks);
+  for (let b = 0; b < blocks; b++) {
+    let sum = 0;
+    let count = 0;
+    for (let ch = 0; ch < speech.numberOfChannels; ch++) {
+      const data = speech.getChannelData(ch);
+      const end = Math.min(speech.length, (b + 1) * blockFrames);
+      for (let n = b * blockFrames; n < end; n++) sum += data[n] * data[n];
+      count += end - b * blockFrames;
+    }
+    active[b] = Math.sqrt(sum / Math.max(1, count)) > threshold ? 1 : 0;
+  }
+
+  // Look ahead by the attack time and hold through short gaps between words
+  const lookahead = Math.round(DUCK_ATTACK_SECONDS / BLOCK_SECONDS);
+  const hold = Math.round(DUCK_HOLD_SECONDS / BLOCK_SECONDS);
+  const ducked = dbToGain(duckDb);
+  // Reaches ~95% of the duck within the lookahead
+  const attack = 1 - Math.exp(-3 / lookahead);
+  const release = 1 - Math.exp(-BLOCK_SECONDS / DUCK_RELEASE_SECONDS);
+
+  const envelope = new Float32Array(blocks);
+  let lastActive = -Infinity;
+  let gain = 1;
+  for (let b = 0; b < blocks; b++) {
+    if (b + lookahead < blocks && active[b + lookahead]) lastActive = b + lookahead;
+    const target = b <= lastActive + hold ? ducked : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+    envelope[b] = gain;
+  }
+  return envelope;
+}
+
+// Returns a new buffer with the music bed mixed under the speech
+export async function mixMusicBed(speech: AudioBuffer, bed: MusicBedSettings, ctx: BaseAudioContext): Promise<AudioBuffer> {
+  if (!bed.audio) return speech;
+
+  let music: AudioBuffer;
+  try {
+    music = await decodeAudioFile(bed.audio.data, ctx);
+  } catch {
+    throw new Error(`Could not decode the music bed "${bed.audio.name}".`);
+  }
+
+  const sampleRate = speech.sampleRate;
+  const length = speech.length;
+  const channels = Math.max(speech.numberOfChannels, music.numberOfChannels);
+  const output = ctx.createBuffer(channels, length, sampleRate);
+
+  const musicLength = bed.fit === 'loop' ? length : Math.min(length, music.length);
+  const fadeIn = Math.min(musicLength, Math.round(bed.fadeInSeconds * sampleRate));
+  const fadeOut = Math.min(musicLength, Math.round(bed.fadeOutSeconds * sampleRate));
+  const level = dbToGain(bed.gainDb);
+  const envelope = computeDuckingEnvelope(speech, bed.duckDb);
+  const blockFrames = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+
+  for (let ch = 0; ch < channels; ch++) {
+    const out = output.getChannelData(ch);
+    // Mono sources are spread across every output channel
+    const voice = speech.getChannelData(Math.min(ch, speech.numberOfChannels - 1));
+    const bedData = music.getChannelData(Math.min(ch, music.numberOfChannels - 1));
+
+    for (let n = 0; n < length; n++) {
+      let sample = voice[n];
+      if (n < musicLength) {
+        // Envelope values sit at block centres; interpolate between them
+        const pos = n / blockFrames - 0.5;
+        const b = Math.max(0, Math.min(envelope.length - 1, Math.floor(pos)));
+        const next = Math.min(envelope.length - 1, b + 1);
+        const t = Math.max(0, Math.min(1, pos - b));
+        let gain = level * (envelope[b] + (envelope[next] - envelope[b]) * t);
+        if (n < fadeIn) gain *= n / fadeIn;
+        if (n >= musicLength - fadeOut) gain *= (musicLength - n) / fadeOut;
+        sample += bedData[n % music.length] * gain;
+      }
+      out[n] = sample;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,167 @@
+import { GeneratedAudio, LoudnessSettings, ProgramSettings, Snippet } from "../types";
+import { bufferToWavBlob, concatAudioBuffers, createSilence, decodeAudioFile, TTS_SAMPLE_RATE } from "../utils/audioUtils";
+import { DEFAULT_MUSIC_BED, mixMusicBed } from "./musicBed";
+import { DEFAULT_LOUDNESS_SETTINGS, normalizeProgram } from "./loudness";
+import { buildCaptions, CaptionCue } from "./captions";
+
+// Renders the whole project (all sections and subsections in table-of-contents
+// order) into a single audio file, with a chapter list of where each one starts.
+
+export const DEFAULT_PROGRAM_SETTINGS: ProgramSettings = {
+  sectionGapSeconds: 1.5,
+  subsectionGapSeconds: 0.75,
+  content: 'all',
+  intro: null,
+  outro: null,
+  music: DEFAULT_MUSIC_BED,
+};
+
+export interface ProgramChapter {
+  title: string;
+  startTime: number; // in seconds
+  endTime: number;
+  depth: 0 | 1; // 0 = section (or intro/outro), 1 = subsection
+}
+
+export interface RenderedProgram {
+  audio: GeneratedAudio;
+  chapters: ProgramChapter[];
+  captions: CaptionCue[];
+  skipped: string[]; // Names of sections/subsections left out because they have no audio yet
+}
+
+interface ProgramClip {
+  title: string;
+  depth: 0 | 1;
+  source: Blob | string; // Generated WAV blob or Base64 upload
+  text?: string; // Source text, for captions
+  gapBefore: number;
+  // Set on the first subsection clip of a section that has no clip of its own
+  opensSection?: string;
+}
+
+// Picks the clips to render, in order, according to the content setting
+function collectClips(snippets: Snippet[], settings: ProgramSettings) {
+  const clips: ProgramClip[] = [];
+  const skipped: string[] = [];
+
+  snippets.forEach((snippet, i) => {
+    const useSubsections = settings.content !== 'sections' && snippet.subsections.length > 0;
+    const useSection = settings.content !== 'subsections' || snippet.subsections.length === 0;
+    let first = true;
+
+    if (useSection) {
+      if (snippet.audio) {
+        clips.push({ title: snippet.name, depth: 0, source: snippet.audio.blob, text: snippet.text, gapBefore: settings.sectionGapSeconds });
+        first = false;
+      } else {
+        skipped.push(`${i + 1}. ${snippet.name}`);
+      }
+    }
+
+    if (useSubsections) {
+      snippet.subsections.forEach((sub, j) => {
+        if (!sub.audio) {
+          skipped.push(`${i + 1}.${j + 1}. ${sub.name}`);
+          return;
+        }
+        // The first clip of a section is separated from the previous section, not the previous subsection
+        clips.push({
+          title: sub.name,
+          depth: 1,
+          source: sub.audio.blob,
+          text: sub.text,
+          gapBefore: first ? settings.sectionGapSeconds : settings.subsectionGapSeconds,
+          opensSection: first ? snippet.name : undefined,
+        });
+        first = false;
+      });
+    }
+  });
+
+  return { clips, skipped };
+}
+
+export async function renderProgram(
+  snippets: Snippet[],
+  settings: ProgramSettings,
+  loudness: LoudnessSettings = DEFAULT_LOUDNESS_SETTINGS
+): Promise<RenderedProgram> {
+  const { clips, skipped } = collectClips(snippets, settings);
+  if (settings.intro) {
+    clips.unshift({ title: 'Intro', depth: 0, source: settings.intro.data, gapBefore: 0 });
+  }
+  if (settings.outro) {
+    clips.push({ title: 'Outro', depth: 0, source: settings.outro.data, gapBefore: settings.sectionGapSeconds });
+  }
+  if (clips.length === 0) {
+    throw new Error("Nothing to render yet. Generate audio for at least one section first.");
+  }
+
+  // Offline context: only used to decode and allocate buffers at the project sample rate
+  const ctx = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+  const parts: AudioBuffer[] = [];
+  const chapters: ProgramChapter[] = [];
+  const captions: CaptionCue[] = [];
+  let frames = 0;
+
+  for (const clip of clips) {
+    let buffer: AudioBuffer;
+    try {
+      buffer = await decodeAudioFile(clip.source, ctx);
+    } catch {
+      throw new Error(`Could not decode the audio for "${clip.title}".`);
+    }
+
+    if (parts.length > 0 && clip.gapBefore > 0) {
+      const silence = createSilence(clip.gapBefore, ctx);
+      parts.push(silence);
+      frames += silence.length;
+    }
+
+    const startTime = frames / ctx.sampleRate;
+    if (clip.opensSection !== undefined) {
+      chapters.push({ title: clip.opensSection, startTime, endTime: startTime, depth: 0 });
+    }
+    chapters.push({ title: clip.title, startTime, endTime: startTime + buffer.duration, depth: clip.depth });
+    // Aligned on the clip alone, before music is mixed under it
+    if (clip.text) captions.push(...buildCaptions(buffer, clip.text, startTime));
+    parts.push(buffer);
+    frames += buffer.length;
+  }
+
+  // A section chapter built from subsections runs until the next section starts
+  const totalDuration = frames / ctx.sampleRate;
+  chapters.forEach((chapter, i) => {
+    if (chapter.depth === 0 && chapter.endTime === chapter.startTime) {
+      const next = chapters.slice(i + 1).find(c => c.depth === 0);
+      chapter.endTime = next ? next.startTime : totalDuration;
+    }
+  });
+
+  const mixed = await mixMusicBed(concatAudioBuffers(parts, ctx), settings.music ?? DEFAULT_MUSIC_BED, ctx);
+  const program = normalizeProgram(mixed, loudness, ctx);
+  const blob = bufferToWavBlob(program);
+  return {
+    audio: { blob, url: URL.createObjectURL(blob), duration: program.duration },
+    chapters,
+    captions,
+    skipped,
+  };
+}
+
+// Formats seconds as M:SS, or H:MM:SS for programs longer than an hour
+export function formatChapterTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Plain-text chapter list ("0:00 Intro"), the format video platforms accept in descriptions
+export function formatChapterList(chapters: ProgramChapter[]): string {
+  return chapters
+    .map(c => `${formatChapterTime(c.startTime)} ${c.depth === 1 ? '  ' : ''}${c.title}`)
+    .join('\n') + '\n';
+}
@@ -0,0 +1,122 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { ProjectWorkspace, Snippet, VoiceName } from "../types";
+import { DEFAULT_EXPORT_SETTINGS } from "./audioExport";
+import { DEFAULT_MAX_CHUNK_CHARS } from "./chunkedNarration";
+import { DEFAULT_DIALOGUE_SETTINGS } from "./dialogueLines";
+import { DEFAULT_LOUDNESS_SETTINGS } from "./loudness";
+import { DEFAULT_MUSIC_BED } from "./musicBed";
+import { DEFAULT_PROGRAM_SETTINGS } from "./programRenderer";
+import { BUNDLE_FORMAT, BUNDLE_VERSION, exportProjectBundle, importProjectBundle } from "./projectBundle";
+import { DEFAULT_SILENCE_SETTINGS } from "./silence";
+import { DEFAULT_TIMELINE } from "./timeline";
+
+const upload = (name: string) => ({ name, data: btoa(`${name} bytes`), mimeType: 'audio/mpeg' });
+const audio = (text: string) => {
+  const blob = new Blob([text], { type: 'audio/wav' });
+  return { blob, url: 'blob:original', duration: 1.5 };
+};
+
+const section: Snippet = {
+  id: 'intro', name: 'Intro', text: 'Welcome.', voice: VoiceName.Kore,
+  audio: audio('intro audio'), status: 'success', error: null,
+  subsections: [{ id: 'step', name: 'Step', text: 'First.', voice: VoiceName.Puck, audio: null, status: 'generating', error: null }],
+};
+
+const workspace: ProjectWorkspace = {
+  mode: 'NARRATION',
+  appName: 'App',
+  featureName: 'Feature',
+  narrationText: 'Welcome.',
+  narrationVoice: VoiceName.Kore,
+  snippets: [section],
+  characters: [{ id: 'mary', name: 'Mary', voice: VoiceName.Kore }],
+  script: [{ id: 'line', characterId: 'mary', text: 'Hi.', audio: audio('line audio'), status: 'success' }],
+  cloningText: '',
+  cloningReference: upload('reference.mp3'),
+  maxChunkChars: DEFAULT_MAX_CHUNK_CHARS,
+  programSettings: { ...DEFAULT_PROGRAM_SETTINGS, intro: upload('intro.mp3'), music: { ...DEFAULT_MUSIC_BED, audio: upload('bed.mp3') } },
+  lexicon: [],
+  dialogueSettings: DEFAULT_DIALOGUE_SETTINGS,
+  timeline: {
+    ...DEFAULT_TIMELINE,
+    clips: [{
+      id: 'clip', trackId: DEFAULT_TIMELINE.tracks[1].id, source: { kind: 'upload', upload: upload('sting.mp3') },
+      label: 'Sting', start: 0, offset: 0, duration: 1, sourceDuration: 1, gainDb: 0,
+    }],
+  },
+  loudness: DEFAULT_LOUDNESS_SETTINGS,
+  silence: DEFAULT_SILENCE_SETTINGS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+};
+
+// A manifest workspace with nothing that refers to files in the bundle
+const { snippets: _snippets, script: _script, ...settings } = workspace;
+const plain = { ...settings, snippets: [], script: [], cloningReference: null, programSettings: DEFAULT_PROGRAM_SETTINGS, timeline: DEFAULT_TIMELINE };
+
+const bundleOf = (manifest: unknown, files: Record<string, string> = {}) => {
+  const zip = new JSZip();
+  zip.file('project.json', JSON.stringify(manifest));
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: 'blob' });
+};
+
+describe("project bundles", () => {
+  it("round-trip a workspace with its audio and uploads", async () => {
+    const imported = await importProjectBundle(await exportProjectBundle('Demo', workspace));
+    expect(imported.name).toBe('Demo');
+
+    const { snippets, script, ...rest } = imported.workspace;
+    expect(rest).toEqual(settings);
+
+    expect(await snippets[0].audio!.blob.text()).toBe('intro audio');
+    expect(snippets[0].audio!.url).not.toBe('blob:original');
+    expect(snippets[0].subsections[0].status).toBe('idle');
+    expect(await script[0].audio!.blob.text()).toBe('line audio');
+  });
+
+  it("mark audio whose file is missing as not generated and drop orphaned clips", async () => {
+    const zip = await JSZip.loadAsync(await (await exportProjectBundle('Demo', workspace)).arrayBuffer());
+    zip.remove('audio');
+    zip.remove('uploads/clip-clip-sting.mp3');
+    const imported = await importProjectBundle(await zip.generateAsync({ type: 'blob' }));
+    expect(imported.workspace.snippets[0]).toMatchObject({ audio: null, status: 'idle' });
+    expect(imported.workspace.timeline.clips).toEqual([]);
+  });
+
+  it("upgrade version 1 workspaces, filling in what later versions added", async () => {
+    const { programSettings, dialogueSettings, timeline, ...v1 } = plain;
+    const line = { id: 'line', characterId: 'mary', text: 'Hi.' };
+    const imported = await importProjectBundle(await bundleOf({
+      format: BUNDLE_FORMAT,
+      version: 1,
+      project: { name: 'Old' },
+      workspace: { ...v1, script: [line] },
+    }));
+    expect(imported.workspace.programSettings).toEqual(DEFAULT_PROGRAM_SETTINGS);
+    expect(imported.workspace.programSettings.music).toEqual(DEFAULT_MUSIC_BED);
+    expect(imported.workspace.dialogueSettings).toEqual(DEFAULT_DIALOGUE_SETTINGS);
+    expect(imported.workspace.timeline).toEqual(DEFAULT_TIMELINE);
+    expect(imported.workspace.script).toEqual([{ ...line, audio: null }]);
+  });
+
+  it("add the music bed to version 4 program settings without touching the rest", async () => {
+    const { music, ...v4Program } = DEFAULT_PROGRAM_SETTINGS;
+    const imported = await importProjectBundle(await bundleOf({
+      format: BUNDLE_FORMAT,
+      version: 4,
+      workspace: { ...plain, programSettings: { ...v4Program, sectionGapSeconds: 3 } },
+    }));
+    expect(imported.name).toBe('Imported project');
+    expect(imported.workspace.programSettings).toEqual({ ...DEFAULT_PROGRAM_SETTINGS, sectionGapSeconds: 3 });
+  });
+
+  it("refuse files that aren't bundles, are damaged or are too new", async () => {
+    await expect(importProjectBundle(new Blob(['not a zip']))).rejects.toThrow(/Is it a \.zip file/);
+    await expect(importProjectBundle(await bundleOf({ format: 'other', version: 1, workspace: {} }))).rejects.toThrow(/not a Narrator Voice Studio project/);
+    await expect(importProjectBundle(await bundleOf({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1, workspace: {} })))
+      .rejects.toThrow(/newer version/);
+    await expect(importProjectBundle(await bundleOf({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, workspace: { ...plain, snippets: [{}], timeline: null } })))
+      .rejects.toThrow("The project bundle is damaged (invalid sections, timeline).");
+  });
+});
@@ -0,0 +1,281 @@
+import JSZip from 'jszip';
+import { GeneratedAudio, ProgramSettings, MusicBedSettings, ProjectWorkspace, ScriptLine, Snippet, Subsection, Timeline, TimelineClip, TimelineSource, UploadedAudio } from "../types";
+import { DEFAULT_DIALOGUE_SETTINGS } from "./dialogueLines";
+import { DEFAULT_MUSIC_BED } from "./musicBed";
+import { DEFAULT_PROGRAM_SETTINGS } from "./programRenderer";
+import { DEFAULT_TIMELINE } from "./timeline";
+
+// A project bundle is a ZIP containing a JSON manifest plus every audio file it
+// references. Unlike the WAV-only export it can be imported back into the app.
+
+export const BUNDLE_FORMAT = 'narrator-voice-studio-project';
+export const BUNDLE_VERSION = 5;
+
+const MANIFEST_FILE = 'project.json';
+const AUDIO_FOLDER = 'audio';
+const UPLOADS_FOLDER = 'uploads';
+
+type BundleAudio = Omit<GeneratedAudio, 'blob' | 'url'> & { file: string };
+
+type BundleSubsection = Omit<Subsection, 'audio'> & { audio: BundleAudio | null };
+
+type BundleSnippet = Omit<Snippet, 'audio' | 'subsections'> & {
+  audio: BundleAudio | null;
+  subsections: BundleSubsection[];
+};
+
+type BundleScriptLine = Omit<ScriptLine, 'audio'> & { audio?: BundleAudio | null };
+
+type BundleUpload = Omit<UploadedAudio, 'data'> & { file: string };
+
+type BundleProgramSettings = Omit<ProgramSettings, 'intro' | 'outro' | 'music'> & {
+  intro: BundleUpload | null;
+  outro: BundleUpload | null;
+  music: Omit<MusicBedSettings, 'audio'> & { audio: BundleUpload | null };
+};
+
+type BundleTimelineClip = Omit<TimelineClip, 'source'> & {
+  source: Exclude<TimelineSource, { kind: 'upload' }> | { kind: 'upload'; upload: BundleUpload };
+};
+
+type BundleTimeline = Omit<Timeline, 'clips'> & { clips: BundleTimelineClip[] };
+
+interface BundleWorkspace extends Omit<ProjectWorkspace, 'snippets' | 'script' | 'cloningReference' | 'programSettings' | 'timeline'> {
+  snippets: BundleSnippet[];
+  script: BundleScriptLine[];
+  cloningReference: BundleUpload | null;
+  programSettings: BundleProgramSettings;
+  timeline: BundleTimeline;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string };
+  workspace: BundleWorkspace;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a workspace from version N to version N + 1. When the
+// workspace shape changes, bump BUNDLE_VERSION and register the upgrade here.
+// Bundles from before an upgrade was registered may already have some of the
+// newer fields, so upgrades only fill in what is missing.
+const MIGRATIONS: Record<number, (workspace: UnknownRecord) => UnknownRecord> = {
+  // v2: program render settings, with intro and outro uploads
+  1: workspace => ({ programSettings: DEFAULT_PROGRAM_SETTINGS, ...workspace }),
+  // v3: dialogue lines rendered one by one, each with its own audio
+  2: workspace => ({
+    dialogueSettings: DEFAULT_DIALOGUE_SETTINGS,
+    ...workspace,
+    script: Array.isArray(workspace.script)
+      ? workspace.script.map(line => isRecord(line) ? { audio: null, ...line } : line)
+      : workspace.script,
+  }),
+  // v4: multi-track timeline
+  3: workspace => ({ timeline: DEFAULT_TIMELINE, ...workspace }),
+  // v5: music bed under the program render
+  4: workspace => isRecord(workspace.programSettings)
+    ? { ...workspace, programSettings: { music: DEFAULT_MUSIC_BED, ...workspace.programSettings } }
+    : workspace,
+};
+
+// A reference to a file in the bundle, or no file
+const isFileRef = (value: unknown) => value == null || (isRecord(value) && typeof value.file === 'string');
+
+const isListOf = (value: unknown, isItem: (item: UnknownRecord) => boolean) =>
+  Array.isArray(value) && value.every(item => isRecord(item) && isItem(item));
+
+// Checks the arrays and objects the import walks through. Plain settings are
+// not checked; missing ones fall back to the defaults when the project opens.
+function assertBundleWorkspace(workspace: UnknownRecord): asserts workspace is UnknownRecord & BundleWorkspace {
+  const { snippets, script, characters, cloningReference, programSettings, timeline } = workspace;
+  const problems = [
+    !isListOf(snippets, s => typeof s.id === 'string' && isFileRef(s.audio)
+      && isListOf(s.subsections, sub => typeof sub.id === 'string' && isFileRef(sub.audio))) && 'sections',
+    !isListOf(script, line => typeof line.id === 'string' && isFileRef(line.audio)) && 'dialogue script',
+    !isListOf(characters, () => true) && 'characters',
+    !isFileRef(cloningReference) && 'cloning reference',
+    !(isRecord(programSettings) && isFileRef(programSettings.intro) && isFileRef(programSettings.outro)
+      && isRecord(programSettings.music) && isFileRef(programSettings.music.audio)) && 'program settings',
+    !(isRecord(timeline) && isListOf(timeline.tracks, track => typeof track.id === 'string')
+      && isListOf(timeline.clips, clip => isRecord(clip.source)
+        && (clip.source.kind !== 'upload' || (isRecord(clip.source.upload) && isFileRef(clip.source.upload))))) && 'timeline',
+  ].filter(Boolean);
+  if (problems.length > 0) {
+    throw new Error(`The project bundle is damaged (invalid ${problems.join(', ')}).`);
+  }
+}
+
+const readManifest = (raw: unknown): BundleManifest => {
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT || typeof raw.version !== 'number' || !isRecord(raw.workspace)) {
+    throw new Error("This file is not a Narrator Voice Studio project bundle.");
+  }
+  if (raw.version > BUNDLE_VERSION) {
+    throw new Error(`This project was exported by a newer version of the app (bundle v${raw.version}). Please update and try again.`);
+  }
+
+  let workspace = raw.workspace;
+  for (let version = raw.version; version < BUNDLE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project bundle v${raw.version} is no longer supported.`);
+    workspace = migrate(workspace);
+  }
+  assertBundleWorkspace(workspace);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    project: { name: isRecord(raw.project) && typeof raw.project.name === 'string' ? raw.project.name : 'Imported project' },
+    workspace,
+  };
+};
+
+export async function exportProjectBundle(name: string, workspace: ProjectWorkspace): Promise<Blob> {
+  const zip = new JSZip();
+
+  const addAudio = (id: string, audio: GeneratedAudio | null | undefined): BundleAudio | null => {
+    if (!audio) return null;
+    const { blob, url, ...meta } = audio;
+    const file = `${AUDIO_FOLDER}/${id}.wav`;
+    // As bytes: JSZip reads Blobs through FileReader, which only browsers have
+    zip.file(file, blob.arrayBuffer());
+    return { ...meta, file };
+  };
+
+  // Uploads are stored as files; the prefix keeps same-named uploads apart
+  const addUpload = (prefix: string, upload: UploadedAudio | null): BundleUpload | null => {
+    if (!upload) return null;
+    const { data, ...meta } = upload;
+    const file = `${UPLOADS_FOLDER}/${prefix}-${meta.name.replace(/[\\/]/g, '_')}`;
+    zip.file(file, data, { base64: true });
+    return { ...meta, file };
+  };
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name },
+    workspace: {
+      ...workspace,
+      cloningReference: addUpload('reference', workspace.cloningReference),
+      programSettings: {
+        ...workspace.programSettings,
+        intro: addUpload('intro', workspace.programSettings.intro),
+        outro: addUpload('outro', workspace.programSettings.outro),
+        music: { ...workspace.programSettings.music, audio: addUpload('music', workspace.programSettings.music.audio) },
+      },
+      snippets: workspace.snippets.map(s => ({
+        ...s,
+        // In-flight generations can't be resumed from a bundle
+        status: s.status === 'generating' ? 'idle' : s.status,
+        audio: addAudio(s.id, s.audio),
+        subsections: s.subsections.map(sub => ({
+          ...sub,
+          status: sub.status === 'generating' ? 'idle' : sub.status,
+          audio: addAudio(sub.id, sub.audio),
+        })),
+      })),
+      script: workspace.script.map(line => ({
+        ...line,
+        status: line.status === 'generating' ? 'idle' : line.status,
+        audio: addAudio(line.id, line.audio),
+      })),
+      timeline: {
+        ...workspace.timeline,
+        clips: workspace.timeline.clips.map(clip => clip.source.kind === 'upload'
+          ? { ...clip, source: { kind: 'upload', upload: addUpload(`clip-${clip.id}`, clip.source.upload)! } }
+          : { ...clip, source: clip.source }),
+      },
+    },
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob" });
+}
+
+export async function importProjectBundle(file: Blob): Promise<{ name: string; workspace: ProjectWorkspace }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer()); // As bytes, like audio on export
+  } catch {
+    throw new Error("Could not read the project bundle. Is it a .zip file?");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error(`The bundle has no ${MANIFEST_FILE}. Audio-only ZIP downloads cannot be imported.`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`The bundle's ${MANIFEST_FILE} is not valid JSON.`);
+  }
+  const manifest = readManifest(raw);
+
+  // Missing audio files degrade to "not generated yet" rather than failing the import
+  const readAudio = async (audio: BundleAudio | null | undefined): Promise<GeneratedAudio | null> => {
+    if (!audio) return null;
+    const entry = zip.file(audio.file);
+    if (!entry) return null;
+    const { file, ...meta } = audio;
+    const blob = new Blob([await entry.async('arraybuffer')], { type: 'audio/wav' });
+    return { ...meta, blob, url: URL.createObjectURL(blob) };
+  };
+
+  const readUpload = async (upload: BundleUpload | null | undefined): Promise<UploadedAudio | null> => {
+    const entry = upload && zip.file(upload.file);
+    if (!upload || !entry) return null;
+    const { file, ...meta } = upload;
+    return { ...meta, data: await entry.async('base64') };
+  };
+
+  const { workspace } = manifest;
+  const cloningReference = await readUpload(workspace.cloningReference);
+  const programSettings: ProgramSettings = {
+    ...workspace.programSettings,
+    intro: await readUpload(workspace.programSettings.intro),
+    outro: await readUpload(workspace.programSettings.outro),
+    music: {
+      ...workspace.programSettings.music,
+      audio: await readUpload(workspace.programSettings.music.audio),
+    },
+  };
+
+  const snippets: Snippet[] = await Promise.all(workspace.snippets.map(async s => {
+    const audio = await readAudio(s.audio);
+    const subsections: Subsection[] = await Promise.all(s.subsections.map(async sub => {
+      const subAudio = await readAudio(sub.audio);
+      return { ...sub, audio: subAudio, status: subAudio || sub.status !== 'success' ? sub.status : 'idle' };
+    }));
+    return { ...s, audio, subsections, status: audio || s.status !== 'success' ? s.status : 'idle' };
+  }));
+
+  const script: ScriptLine[] = await Promise.all(workspace.script.map(async line => {
+    const audio = await readAudio(line.audio);
+    return { ...line, audio, status: audio || line.status !== 'success' ? line.status : 'idle' };
+  }));
+
+  // Imported timeline clips whose file is missing are dropped
+  const timeline: Timeline = {
+    ...workspace.timeline,
+    clips: (await Promise.all(workspace.timeline.clips.map(async (clip): Promise<TimelineClip | null> => {
+      if (clip.source.kind !== 'upload') return { ...clip, source: clip.source };
+      const upload = await readUpload(clip.source.upload);
+      return upload ? { ...clip, source: { kind: 'upload', upload } } : null;
+    }))).filter((clip): clip is TimelineClip => clip !== null),
+  };
+
+  return {
+    name: manifest.project.name,
+    workspace: { ...workspace, snippets, script, cloningReference, programSettings, timeline },
+  };
+}
@@ -0,0 +1,198 @@
+import { GeneratedAudio, ProjectSummary, ProjectWorkspace, ScriptLine, Snippet, Subsection } from "../types";
+
+// Projects are persisted in IndexedDB so generated audio blobs survive reloads.
+// Summaries and workspaces live in separate stores so listing projects never
+// has to load any audio.
+
+const DB_NAME = 'narrator-voice-studio';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const WORKSPACES_STORE = 'workspaces';
+const LAST_PROJECT_KEY = 'narrator-voice-studio:lastProjectId';
+
+// Object URLs are only valid for the current page, so they are dropped on save
+type StoredAudio = Omit<GeneratedAudio, 'url'>;
+
+type StoredSubsection = Omit<Subsection, 'audio'> & { audio: StoredAudio | null };
+
+type StoredSnippet = Omit<Snippet, 'audio' | 'subsections'> & {
+  audio: StoredAudio | null;
+  subsections: StoredSubsection[];
+};
+
+type StoredScriptLine = Omit<ScriptLine, 'audio'> & { audio?: StoredAudio | null };
+
+interface StoredWorkspace extends Omit<ProjectWorkspace, 'snippets' | 'script'> {
+  id: string;
+  snippets: StoredSnippet[];
+  script: StoredScriptLine[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(WORKSPACES_STORE)) {
+          db.createObjectStore(WORKSPACES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const toStoredAudio = (audio: GeneratedAudio | null | undefined): StoredAudio | null => {
+  if (!audio) return null;
+  const { url, ...stored } = audio;
+  return stored;
+};
+
+const fromStoredAudio = (audio: StoredAudio | null | undefined): GeneratedAudio | null =>
+  audio ? { ...audio, url: URL.createObjectURL(audio.blob) } : null;
+
+// A generation that was in flight when the page closed will never finish
+const restoreStatus = (status: Snippet['status'], hasAudio: boolean): Snippet['status'] =>
+  status === 'generating' ? (hasAudio ? 'success' : 'idle') : status;
+
+const toStoredWorkspace = (id: string, workspace: ProjectWorkspace): StoredWorkspace => ({
+  ...workspace,
+  id,
+  snippets: workspace.snippets.map(s => ({
+    ...s,
+    audio: toStoredAudio(s.audio),
+    subsections: s.subsections.map(sub => ({ ...sub, audio: toStoredAudio(sub.audio) })),
+  })),
+  script: workspace.script.map(line => ({ ...line, audio: toStoredAudio(line.audio) })),
+});
+
+const fromStoredWorkspace = (stored: StoredWorkspace): ProjectWorkspace => {
+  const { id, ...workspace } = stored;
+  return {
+    ...workspace,
+    snippets: stored.snippets.map(s => ({
+      ...s,
+      status: restoreStatus(s.status, !!s.audio),
+      audio: fromStoredAudio(s.audio),
+      subsections: s.subsections.map(sub => ({
+        ...sub,
+        status: restoreStatus(sub.status, !!sub.audio),
+        audio: fromStoredAudio(sub.audio),
+      })),
+    })),
+    script: stored.script.map(line => ({
+      ...line,
+      status: line.status ? restoreStatus(line.status, !!line.audio) : undefined,
+      audio: fromStoredAudio(line.audio),
+    })),
+  };
+};
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const projects = await requestToPromise<ProjectSummary[]>(tx.objectStore(PROJECTS_STORE).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+const newSummary = (name: string): ProjectSummary => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+};
+
+async function putProject(summary: ProjectSummary, stored: StoredWorkspace): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, WORKSPACES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(summary);
+  tx.objectStore(WORKSPACES_STORE).put(stored);
+  await transactionDone(tx);
+}
+
+export async function createProject(name: string, workspace: ProjectWorkspace): Promise<ProjectSummary> {
+  const summary = newSummary(name);
+  await putProject(summary, toStoredWorkspace(summary.id, workspace));
+  return summary;
+}
+
+export async function loadProject(id: string): Promise<ProjectWorkspace | null> {
+  const db = await openDb();
+  const tx = db.transaction(WORKSPACES_STORE, 'readonly');
+  const stored = await requestToPromise<StoredWorkspace | undefined>(tx.objectStore(WORKSPACES_STORE).get(id));
+  return stored ? fromStoredWorkspace(stored) : null;
+}
+
+export async function saveProject(id: string, workspace: ProjectWorkspace): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, WORKSPACES_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const summary = await requestToPromise<ProjectSummary | undefined>(projects.get(id));
+  if (!summary) {
+    tx.abort();
+    throw new Error("Project no longer exists.");
+  }
+  projects.put({ ...summary, updatedAt: Date.now() });
+  tx.objectStore(WORKSPACES_STORE).put(toStoredWorkspace(id, workspace));
+  await transactionDone(tx);
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const summary = await requestToPromise<ProjectSummary | undefined>(projects.get(id));
+  if (summary) {
+    projects.put({ ...summary, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, WORKSPACES_STORE], 'readonly');
+  const [summary, stored] = await Promise.all([
+    requestToPromise<ProjectSummary | undefined>(tx.objectStore(PROJECTS_STORE).get(id)),
+    requestToPromise<StoredWorkspace | undefined>(tx.objectStore(WORKSPACES_STORE).get(id)),
+  ]);
+  if (!summary || !stored) throw new Error("Project not found.");
+
+  // Blobs are immutable, so the copy can share them with the original
+  const copy = newSummary(`${summary.name} (Copy)`);
+  await putProject(copy, { ...stored, id: copy.id });
+  return copy;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, WORKSPACES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(WORKSPACES_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) => localStorage.setItem(LAST_PROJECT_KEY, id);
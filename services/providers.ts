@@ -0,0 +1,17 @@
+import { ProviderId, TtsProvider, SttProvider } from "./ttsProvider";
+import { geminiProvider, isGeminiConfigured } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<ProviderId, TtsProvider & SttProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_OPTIONS = Object.values(PROVIDERS).map(p => ({ id: p.id, label: p.label }));
+
+// Without an API key the Gemini provider can only fail, so start offline instead
+export const DEFAULT_PROVIDER_ID: ProviderId = isGeminiConfigured() ? 'gemini' : 'mock';
+
+export const getTtsProvider = (id: ProviderId): TtsProvider => PROVIDERS[id];
+
+export const getSttProvider = (id: ProviderId): SttProvider => PROVIDERS[id];
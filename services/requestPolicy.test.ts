@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter, withRetry } from "./requestPolicy";
+import { CancelledError, ServiceUnavailableError } from "./ttsErrors";
+
+const FAST_RETRY = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 1000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("withRetry", () => {
+  it("retries transient failures until the request succeeds", async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new ServiceUnavailableError(503))
+      .mockResolvedValueOnce('audio');
+    const result = withRetry(request, FAST_RETRY);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('audio');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("ends the backoff wait as soon as the signal fires", async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(new ServiceUnavailableError(503));
+    const result = withRetry(request, FAST_RETRY, controller.signal);
+    const settled = expect(result).rejects.toBeInstanceOf(CancelledError);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await settled;
+    await vi.runAllTimersAsync();
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("makes no attempt once the signal has fired", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const request = vi.fn();
+    await expect(withRetry(request, FAST_RETRY, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("holds requests past the limit until the window moves on", async () => {
+    const limiter = createRateLimiter(1, 1000);
+    const granted: number[] = [];
+    limiter.acquire().then(() => granted.push(1));
+    limiter.acquire().then(() => granted.push(2));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([1, 2]);
+  });
+
+  it("drops a cancelled caller from the line without using a slot", async () => {
+    const limiter = createRateLimiter(1, 1000);
+    const controller = new AbortController();
+    const granted: string[] = [];
+    limiter.acquire().then(() => granted.push('first'));
+    const cancelled = limiter.acquire(controller.signal);
+    limiter.acquire().then(() => granted.push('third'));
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual(['first', 'third']);
+  });
+});
@@ -0,0 +1,102 @@
+import { CancelledError, classifyError, RateLimitError } from "./ttsErrors";
+
+// Retry and rate limiting for calls to a remote speech API.
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+// Rejects with a CancelledError as soon as the signal fires
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new CancelledError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with full jitter, never shorter than what the server asked for
+const backoffDelay = (attempt: number, options: RetryOptions, retryAfterMs?: number) => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+// Runs the request, retrying transient failures (rate limits, 5xx, network).
+// Whatever is finally thrown is a classified TtsError; once the signal fires
+// no further attempt is made and the backoff wait ends with a CancelledError.
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      return await request();
+    } catch (error) {
+      const err = classifyError(error);
+      if (!err.retryable || attempt + 1 >= options.maxAttempts) throw err;
+
+      const delay = backoffDelay(attempt, options, err instanceof RateLimitError ? err.retryAfterMs : undefined);
+      await wait(delay, signal);
+    }
+  }
+}
+
+export interface RateLimiter {
+  // Resolves once another request may be sent. A caller whose signal fires
+  // leaves the line with a CancelledError and takes no slot.
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+interface Waiter {
+  grant: () => void;
+}
+
+// Allows at most `limit` requests in any sliding window of `windowMs`
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const sent: number[] = [];
+  const waiting: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Callers are served in order, so a burst can't starve earlier requests
+  const serve = () => {
+    timer = undefined;
+    const now = Date.now();
+    while (sent.length > 0 && now - sent[0] >= windowMs) sent.shift();
+    while (waiting.length > 0 && sent.length < limit) {
+      sent.push(now);
+      waiting.shift()!.grant();
+    }
+    if (waiting.length > 0) timer = setTimeout(serve, windowMs - (now - sent[0]));
+  };
+
+  return {
+    acquire: (signal) => new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(new CancelledError());
+      const onAbort = () => {
+        waiting.splice(waiting.indexOf(waiter), 1);
+        reject(new CancelledError());
+      };
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiting.push(waiter);
+      if (timer === undefined) serve();
+    }),
+  };
+}
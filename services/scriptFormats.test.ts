@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Character, ScriptLine, VoiceName } from "../types";
+import { ScriptImportResult } from "./fountainImport";
+import { exportScriptCsv, exportTranscript, parseScriptCsv, parseTranscript } from "./scriptFormats";
+
+const cast: Character[] = [
+  { id: 'mary', name: 'Mary', voice: VoiceName.Kore },
+  { id: 'odd', name: 'Dr. Who (II): The #1', voice: VoiceName.Puck },
+  { id: 'hash', name: '#Hashtag', voice: VoiceName.Charon },
+];
+
+const script: ScriptLine[] = [
+  { id: '1', characterId: 'mary', text: 'Hello? Is it 5:30 (already)?', direction: 'whispering', scene: 'INT. KITCHEN - DAY' },
+  { id: '2', characterId: 'odd', text: 'First paragraph.\n\nSecond paragraph.\n  Indented, with a \\ backslash.', direction: 'softly (very) :)' },
+  { id: '3', characterId: 'hash', text: '\nStarts on the next line.' },
+  { id: '4', characterId: 'mary', text: '' },
+];
+
+// What a line says and who says it, without generated ids
+const readable = ({ characters, script }: Pick<ScriptImportResult, 'characters' | 'script'>) =>
+  script.map(line => ({
+    speaker: characters.find(c => c.id === line.characterId)?.name,
+    text: line.text,
+    direction: line.direction,
+    scene: line.scene,
+  }));
+
+describe("transcripts", () => {
+  it("round-trip names, directions, scenes and line breaks", () => {
+    const parsed = parseTranscript(exportTranscript(script, cast), []);
+    expect(parsed.skipped).toEqual([]);
+    expect(readable(parsed)).toEqual(readable({ characters: cast, script }));
+  });
+
+  it("escape only what would otherwise be misread", () => {
+    expect(exportTranscript(script.slice(0, 1), cast)).toBe('# INT. KITCHEN - DAY\nMary (whispering): Hello? Is it 5:30 (already)?\n');
+    expect(exportTranscript(script.slice(2, 3), cast)).toBe('\\#Hashtag:\n  Starts on the next line.\n');
+  });
+
+  it("read hand-written files", () => {
+    const text = 'Mary (angry):Get out.\n\n    Now!\nJohn : Fine.\nnot a line\n  \tStill John.';
+    const parsed = parseTranscript(text, cast);
+    expect(readable(parsed)).toEqual([
+      { speaker: 'Mary', text: 'Get out.\nNow!', direction: 'angry', scene: undefined },
+      { speaker: 'John', text: 'Fine.\nStill John.', direction: undefined, scene: undefined },
+    ]);
+    expect(parsed.skipped.map(s => s.lineNumber)).toEqual([5]);
+  });
+
+  it("keep the voices of existing cast members", () => {
+    const parsed = parseTranscript('mary: Hi.\nNewcomer: Hello.', cast);
+    expect(parsed.characters[0]).toMatchObject({ id: 'mary', voice: VoiceName.Kore });
+    expect(parsed.characters[1].voice).not.toBe(VoiceName.Kore);
+  });
+});
+
+describe("CSV scripts", () => {
+  it("round-trip voices, lines, directions and scenes", () => {
+    // Cells are trimmed, so a turn can't start with a line break
+    const lines = script.filter(line => line.text === line.text.trim());
+    const parsed = parseScriptCsv(exportScriptCsv(lines, cast), []);
+    expect(parsed.skipped).toEqual([]);
+    expect(readable(parsed)).toEqual(readable({ characters: cast, script: lines }));
+    expect(parsed.characters.map(c => c.voice)).toEqual([VoiceName.Kore, VoiceName.Puck]);
+  });
+
+  it("read columns by header name, or as speaker, text and voice", () => {
+    const byHeader = parseScriptCsv('text,Speaker\nHi there,Mary\n,', []);
+    expect(readable(byHeader)).toEqual([{ speaker: 'Mary', text: 'Hi there', direction: undefined, scene: undefined }]);
+    expect(byHeader.skipped.map(s => s.lineNumber)).toEqual([3]);
+
+    const plain = parseScriptCsv('John,Hello,puck\nJane,Bye,Nobody', []);
+    expect(plain.characters[0].voice).toBe(VoiceName.Puck);
+    expect(plain.skipped).toEqual([expect.objectContaining({ lineNumber: 2 })]);
+  });
+});
@@ -0,0 +1,133 @@
+import { Character, ScriptLine, VoiceName } from "../types";
+import { ScriptImportResult, SkippedLine, createCastBuilder } from "./fountainImport";
+import { parseCsv, toCsv } from "../utils/csv";
+
+// Plain-text and CSV formats for dialogue scripts, meant to be kept in a repo
+// and reviewed as diffs. Exporting and importing again gives back the same
+// cast names, voices (CSV only), lines, directions and scene markers.
+//
+// Transcript:                       CSV:
+//   # INT. KITCHEN - DAY              speaker,text,voice,direction,scene
+//   Mary (whispering): Hello?         Mary,Hello?,Kore,whispering,INT. KITCHEN - DAY
+//   John: Right behind you.           John,Right behind you.,Puck,,
+//     A second line of the same turn
+//
+// In transcripts a backslash makes the next character literal: names escape
+// ":", "(" and ")", directions escape ")", and a turn's text escapes its
+// leading whitespace. A lone "\" stands for a blank line within a turn.
+
+const CSV_COLUMNS = ['speaker', 'text', 'voice', 'direction', 'scene'];
+
+const TRANSCRIPT_LINE = /^(?![\s#])((?:\\.|[^\\:()])+?)\s*(?:\(((?:\\.|[^\\)])*)\))?\s*:\s?(.*)$/;
+const CONTINUATION_INDENT = '  ';
+
+const escapeName = (name: string) => name.replace(/[\\:()]/g, '\\$&').replace(/^#/, '\\#');
+const escapeDirection = (direction: string) => direction.replace(/[\\)]/g, '\\$&');
+// A leading "\" keeps leading whitespace, and keeps an empty line from being skipped
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/^(?=\s|$)/, '\\');
+const unescapeTranscript = (text: string) => text.replace(/\\(.?)/g, '$1');
+
+const buildLine = (characterId: string, text: string, direction?: string, scene?: string): ScriptLine => ({
+  id: crypto.randomUUID(),
+  characterId,
+  text,
+  ...(direction ? { direction } : {}),
+  ...(scene ? { scene } : {}),
+});
+
+export function exportTranscript(script: ScriptLine[], characters: Character[]): string {
+  const out: string[] = [];
+  for (const line of script) {
+    const name = characters.find(c => c.id === line.characterId)?.name ?? 'Unknown';
+    if (line.scene) out.push(`# ${line.scene}`);
+    const direction = line.direction ? ` (${escapeDirection(line.direction)})` : '';
+    // Line breaks inside a turn become indented continuation lines
+    const [first, ...rest] = line.text.split('\n');
+    out.push(first ? `${escapeName(name)}${direction}: ${escapeText(first)}` : `${escapeName(name)}${direction}:`);
+    rest.forEach(more => out.push(CONTINUATION_INDENT + escapeText(more)));
+  }
+  return out.join('\n') + '\n';
+}
+
+export function parseTranscript(text: string, existingCast: Character[]): ScriptImportResult {
+  const cast = createCastBuilder(existingCast);
+  const script: ScriptLine[] = [];
+  const skipped: SkippedLine[] = [];
+  let pendingScene: string | undefined;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const lineNumber = i + 1;
+    if (!raw.trim()) return;
+
+    if (raw.startsWith('#')) {
+      pendingScene = raw.replace(/^#+/, '').trim() || undefined;
+      return;
+    }
+
+    if (/^\s/.test(raw)) {
+      const previous = script[script.length - 1];
+      if (previous) previous.text += '\n' + unescapeTranscript(raw.trim());
+      else skipped.push({ lineNumber, text: raw.trim(), reason: "Continuation line before any speaker" });
+      return;
+    }
+
+    const match = raw.match(TRANSCRIPT_LINE);
+    if (!match) {
+      skipped.push({ lineNumber, text: raw, reason: "Not in \"Name: line\" format" });
+      return;
+    }
+    const [, name, direction, spoken] = match;
+    script.push(buildLine(cast.resolve(unescapeTranscript(name.trim())).id, unescapeTranscript(spoken.trim()), direction && unescapeTranscript(direction.trim()), pendingScene));
+    pendingScene = undefined;
+  });
+
+  return { characters: cast.characters, script, skipped };
+}
+
+export function exportScriptCsv(script: ScriptLine[], characters: Character[]): string {
+  const rows = script.map(line => {
+    const character = characters.find(c => c.id === line.characterId);
+    return [character?.name ?? 'Unknown', line.text, character?.voice ?? '', line.direction ?? '', line.scene ?? ''];
+  });
+  return toCsv([CSV_COLUMNS, ...rows]);
+}
+
+const findVoice = (value: string) =>
+  Object.values(VoiceName).find(v => v.toLowerCase() === value.trim().toLowerCase());
+
+// Columns are read by header name when the first row is a header (any order,
+// extra columns ignored), otherwise as speaker, text, voice
+export function parseScriptCsv(text: string, existingCast: Character[]): ScriptImportResult {
+  const rows = parseCsv(text);
+  const hasHeader = rows[0]?.some(cell => cell.trim().toLowerCase() === 'speaker');
+  const header = hasHeader ? rows.shift()!.map(cell => cell.trim().toLowerCase()) : CSV_COLUMNS.slice(0, 3);
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? (row[index] ?? '') : '';
+  };
+
+  const cast = createCastBuilder(existingCast);
+  const script: ScriptLine[] = [];
+  const skipped: SkippedLine[] = [];
+
+  rows.forEach((row, i) => {
+    // Row numbers as a spreadsheet shows them
+    const lineNumber = i + (hasHeader ? 2 : 1);
+    const speaker = column(row, 'speaker').trim();
+    if (!speaker) {
+      skipped.push({ lineNumber, text: row.join(', '), reason: "Missing speaker" });
+      return;
+    }
+
+    const voiceName = column(row, 'voice');
+    const voice = voiceName.trim() ? findVoice(voiceName) : undefined;
+    if (voiceName.trim() && !voice) {
+      skipped.push({ lineNumber, text: voiceName, reason: `Unknown voice for ${speaker}; one was assigned instead` });
+    }
+
+    const character = cast.resolve(speaker, voice);
+    script.push(buildLine(character.id, column(row, 'text').trim(), column(row, 'direction').trim(), column(row, 'scene').trim()));
+  });
+
+  return { characters: cast.characters, script, skipped };
+}
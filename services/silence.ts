@@ -0,0 +1,27 @@
+import { ClipPadding, SilenceSettings } from "../types";
+import { trimAndPadSilence } from "../utils/audioUtils";
+
+// Generated clips start and end with however much silence the model left in.
+// Trimming it and adding a fixed head and tail makes stitched clips sound even.
+
+export const DEFAULT_SILENCE_SETTINGS: SilenceSettings = {
+  enabled: false,
+  thresholdDb: -50,
+  headSeconds: 0.25,
+  tailSeconds: 0.5,
+};
+
+// The clip's own padding when it has an override, otherwise the project's
+export const resolvePadding = (settings: SilenceSettings, override?: ClipPadding): ClipPadding =>
+  override ?? { headSeconds: settings.headSeconds, tailSeconds: settings.tailSeconds };
+
+export function applySilenceSettings(
+  buffer: AudioBuffer,
+  settings: SilenceSettings,
+  override: ClipPadding | undefined,
+  ctx: BaseAudioContext
+): AudioBuffer {
+  if (!settings.enabled) return buffer;
+  const { headSeconds, tailSeconds } = resolvePadding(settings, override);
+  return trimAndPadSilence(buffer, settings.thresholdDb, headSeconds, tailSeconds, ctx);
+}
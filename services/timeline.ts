@@ -0,0 +1,144 @@
+import { Character, GeneratedAudio, ScriptLine, Snippet, Timeline, TimelineClip, TimelineSource, TimelineTrack } from "../types";
+import { bufferToWavBlob, decodeAudioFile, TTS_SAMPLE_RATE } from "../utils/audioUtils";
+
+// Multi-track arrangement of clips. Clips reference generated audio or carry an
+// imported file; the mix is rendered offline so it is sample-accurate and
+// doesn't depend on playback timing.
+
+export const MIN_CLIP_SECONDS = 0.05;
+
+export const createTrack = (name: string): TimelineTrack => ({
+  id: crypto.randomUUID(),
+  name,
+  gainDb: 0,
+  muted: false,
+});
+
+export const DEFAULT_TIMELINE: Timeline = {
+  tracks: [createTrack('Voice'), createTrack('Music & FX')],
+  clips: [],
+};
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// A generated or imported piece of audio that can be placed on the timeline
+export interface ClipSourceOption {
+  source: TimelineSource;
+  label: string;
+  duration: number;
+}
+
+// Every generated clip in the project, in table-of-contents then script order
+export function listClipSources(snippets: Snippet[], script: ScriptLine[], characters: Character[]): ClipSourceOption[] {
+  const options: ClipSourceOption[] = [];
+  snippets.forEach((snippet, i) => {
+    if (snippet.audio) {
+      options.push({ source: { kind: 'section', sectionId: snippet.id }, label: `${i + 1}. ${snippet.name}`, duration: snippet.audio.duration });
+    }
+    snippet.subsections.forEach((sub, j) => {
+      if (sub.audio) {
+        options.push({
+          source: { kind: 'subsection', sectionId: snippet.id, subsectionId: sub.id },
+          label: `${i + 1}.${j + 1}. ${sub.name}`,
+          duration: sub.audio.duration,
+        });
+      }
+    });
+  });
+  script.forEach((line, i) => {
+    if (line.audio) {
+      const speaker = characters.find(c => c.id === line.characterId)?.name ?? 'Unknown';
+      options.push({ source: { kind: 'line', lineId: line.id }, label: `Line ${i + 1} (${speaker})`, duration: line.audio.duration });
+    }
+  });
+  return options;
+}
+
+// The audio a clip currently plays: the latest take for generated sources.
+// Null when the referenced section, subsection or line is gone or has no audio.
+export function resolveClipAudio(source: TimelineSource, snippets: Snippet[], script: ScriptLine[]): Blob | string | null {
+  switch (source.kind) {
+    case 'section':
+      return snippets.find(s => s.id === source.sectionId)?.audio?.blob ?? null;
+    case 'subsection':
+      return snippets.find(s => s.id === source.sectionId)?.subsections.find(sub => sub.id === source.subsectionId)?.audio?.blob ?? null;
+    case 'line':
+      return script.find(l => l.id === source.lineId)?.audio?.blob ?? null;
+    case 'upload':
+      return source.upload.data;
+  }
+}
+
+// Places a new clip after the last clip on the track
+export function createClip(option: ClipSourceOption, trackId: string, timeline: Timeline): TimelineClip {
+  const trackEnd = Math.max(0, ...timeline.clips.filter(c => c.trackId === trackId).map(c => c.start + c.duration));
+  return {
+    id: crypto.randomUUID(),
+    trackId,
+    source: option.source,
+    label: option.label,
+    start: trackEnd,
+    offset: 0,
+    duration: option.duration,
+    sourceDuration: option.duration,
+    gainDb: 0,
+  };
+}
+
+export const getTimelineDuration = (timeline: Timeline) =>
+  Math.max(0, ...timeline.clips.map(c => c.start + c.duration));
+
+export interface RenderedTimeline {
+  audio: GeneratedAudio;
+  missing: string[]; // Labels of clips whose audio no longer exists
+}
+
+export async function renderTimeline(timeline: Timeline, snippets: Snippet[], script: ScriptLine[]): Promise<RenderedTimeline> {
+  const audible = new Set(timeline.tracks.filter(t => !t.muted).map(t => t.id));
+  const missing: string[] = [];
+
+  // Sources are decoded at the project rate; imported files are resampled on decode
+  const decoder = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+  const decoded = new Map<Blob | string, Promise<AudioBuffer>>();
+  const placed: { clip: TimelineClip; buffer: AudioBuffer; gain: number }[] = [];
+
+  for (const clip of timeline.clips) {
+    if (!audible.has(clip.trackId)) continue;
+    const source = resolveClipAudio(clip.source, snippets, script);
+    if (!source) {
+      missing.push(clip.label);
+      continue;
+    }
+    if (!decoded.has(source)) decoded.set(source, decodeAudioFile(source, decoder));
+    const track = timeline.tracks.find(t => t.id === clip.trackId)!;
+    placed.push({ clip, buffer: await decoded.get(source)!, gain: dbToGain(clip.gainDb + track.gainDb) });
+  }
+
+  // A regenerated take may be shorter than the clip that was trimmed from it
+  const lengthOf = ({ clip, buffer }: typeof placed[number]) =>
+    Math.max(0, Math.min(clip.duration, buffer.duration - clip.offset));
+  const totalSeconds = Math.max(0, ...placed.map(p => p.clip.start + lengthOf(p)));
+  if (totalSeconds <= 0) {
+    throw new Error("The timeline has no audible clips to render.");
+  }
+
+  const channels = Math.max(1, ...placed.map(p => p.buffer.numberOfChannels));
+  const ctx = new OfflineAudioContext(channels, Math.ceil(totalSeconds * TTS_SAMPLE_RATE), TTS_SAMPLE_RATE);
+  for (const p of placed) {
+    const length = lengthOf(p);
+    if (length <= 0) continue;
+    const node = ctx.createBufferSource();
+    node.buffer = p.buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = p.gain;
+    node.connect(gain).connect(ctx.destination);
+    node.start(p.clip.start, p.clip.offset, length);
+  }
+
+  const buffer = await ctx.startRendering();
+  const blob = bufferToWavBlob(buffer);
+  return {
+    audio: { blob, url: URL.createObjectURL(blob), duration: buffer.duration },
+    missing,
+  };
+}
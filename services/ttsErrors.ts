@@ -0,0 +1,136 @@
+// Typed errors for speech generation. Every failure surfaced to the UI is one of
+// these, so it can say what went wrong and whether trying again will help.
+
+export class TtsError extends Error {
+  // Whether the same request may succeed if sent again later
+  readonly retryable: boolean;
+  // What the user can do about it
+  readonly hint: string;
+  readonly status?: number;
+
+  constructor(message: string, options: { retryable: boolean; hint: string; status?: number; cause?: unknown }) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.retryable = options.retryable;
+    this.hint = options.hint;
+    this.status = options.status;
+  }
+}
+
+export class RateLimitError extends TtsError {
+  // Server-suggested wait before retrying, when it sent one
+  readonly retryAfterMs?: number;
+
+  constructor(status?: number, retryAfterMs?: number, cause?: unknown) {
+    super("Rate limit or quota reached.", {
+      retryable: true,
+      hint: "Retrying after a short wait should work. If it keeps happening, lower the batch concurrency or check your quota.",
+      status,
+      cause,
+    });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServiceUnavailableError extends TtsError {
+  constructor(status?: number, cause?: unknown) {
+    super(`The speech service had a temporary problem${status ? ` (HTTP ${status})` : ''}.`, {
+      retryable: true,
+      hint: "Retrying should help.",
+      status,
+      cause,
+    });
+  }
+}
+
+export class NetworkError extends TtsError {
+  constructor(cause?: unknown) {
+    super("Could not reach the speech service.", {
+      retryable: true,
+      hint: "Check your internet connection, then retry.",
+      cause,
+    });
+  }
+}
+
+export class AuthError extends TtsError {
+  constructor(status?: number, cause?: unknown) {
+    super("The API key was rejected or lacks access to this model.", {
+      retryable: false,
+      hint: "Set a valid GEMINI_API_KEY in .env.local (or switch to the Offline Mock provider). Retrying won't help.",
+      status,
+      cause,
+    });
+  }
+}
+
+export class SafetyBlockError extends TtsError {
+  constructor(reason: string, cause?: unknown) {
+    super(`The model refused to speak this text (${reason}).`, {
+      retryable: false,
+      hint: "Rephrase the flagged passage. Retrying the same text won't help.",
+      cause,
+    });
+  }
+}
+
+export class EmptyAudioError extends TtsError {
+  constructor(cause?: unknown) {
+    super("The model returned no audio.", {
+      retryable: true,
+      hint: "This is usually a one-off; retrying often works. Very long or unusual text can also cause it.",
+      cause,
+    });
+  }
+}
+
+export class InvalidRequestError extends TtsError {
+  constructor(detail: string, status?: number, cause?: unknown) {
+    super(`The request was rejected: ${detail}`, {
+      retryable: false,
+      hint: "Check the text, voice and speaker setup. Retrying the same request won't help.",
+      status,
+      cause,
+    });
+  }
+}
+
+export class CancelledError extends TtsError {
+  constructor() {
+    super("Generation was cancelled.", { retryable: false, hint: "" });
+  }
+}
+
+// Gemini puts a RetryInfo detail like "retryDelay": "37s" into 429 messages
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+// Maps anything thrown by an SDK call or fetch to one of the typed errors above
+export function classifyError(error: unknown): TtsError {
+  if (error instanceof TtsError) return error;
+
+  const err = error as { status?: unknown; message?: unknown; name?: unknown } | null;
+  const message = typeof err?.message === 'string' ? err.message : String(error);
+  const status = typeof err?.status === 'number' ? err.status : undefined;
+
+  if (err?.name === 'AbortError') return new CancelledError();
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new RateLimitError(status, parseRetryDelay(message), error);
+  }
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AuthError(status, error);
+  }
+  if (status !== undefined && status >= 500) return new ServiceUnavailableError(status, error);
+  if (status !== undefined && status >= 400) return new InvalidRequestError(message, status, error);
+  if (error instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(error);
+
+  return new TtsError(message || "An unknown error occurred.", { retryable: false, hint: "", cause: error });
+}
+
+// User-facing text: what happened, then what to do about it
+export function describeError(error: unknown): string {
+  const err = classifyError(error);
+  return err.hint ? `${err.message} ${err.hint}` : err.message;
+}
@@ -0,0 +1,39 @@
+import { VoiceName, Character, ScriptLine } from "../types";
+
+export interface SingleVoiceParams {
+  text: string;
+  voice: VoiceName;
+  direction?: string; // Natural-language delivery instruction, not part of the spoken text
+  signal?: AbortSignal; // Cancels the request, including any wait for a retry or rate limit slot
+}
+
+export interface DialogueParams {
+  script: ScriptLine[];
+  characters: Character[];
+  signal?: AbortSignal;
+}
+
+export interface CloningParams {
+  text: string;
+  referenceAudio: string; // Base64 string of the audio file
+  mimeType: string;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Speech synthesis backend. Every method resolves to base64-encoded raw PCM16
+// (24kHz mono), which is the format decodeAudioData expects.
+export interface TtsProvider {
+  id: ProviderId;
+  label: string;
+  generateSingleVoice(params: SingleVoiceParams): Promise<string>;
+  generateDialogue(params: DialogueParams): Promise<string>;
+  generateClonedSpeech(params: CloningParams): Promise<string>;
+}
+
+// Speech recognition backend. Takes base64 audio in any browser-supported format.
+export interface SttProvider {
+  id: ProviderId;
+  label: string;
+  transcribeAudio(base64Audio: string, mimeType: string): Promise<string>;
+}
@@ -0,0 +1,99 @@
+import { decodeAudioFile, TTS_SAMPLE_RATE } from "../utils/audioUtils";
+
+// Waveform overviews for the audio player. Peaks are computed once per clip,
+// at a fine resolution plus successively halved ones, so drawing a column
+// reads a handful of bins at any zoom.
+
+interface PeakLevel {
+  min: Float32Array; // Lowest sample in each bin, across channels
+  max: Float32Array;
+  clipped: Uint8Array; // 1 where the bin reaches full scale
+  binSeconds: number;
+}
+
+export interface WaveformPeaks {
+  binSeconds: number; // Of the finest level
+  levels: PeakLevel[]; // Finest first, each with bins twice as long
+}
+
+export interface PeakColumn {
+  min: number;
+  max: number;
+  clipped: boolean;
+}
+
+// About 2.7 ms at 24 kHz, finer than a pixel at any useful zoom
+const SAMPLES_PER_BIN = 64;
+// Generated audio is float, so full scale shows up as samples at or past this
+const CLIP_LEVEL = 0.999;
+
+export function computePeaks(buffer: AudioBuffer): WaveformPeaks {
+  const bins = Math.ceil(buffer.length / SAMPLES_PER_BIN);
+  const min = new Float32Array(bins);
+  const max = new Float32Array(bins);
+  const clipped = new Uint8Array(bins);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let bin = 0; bin < bins; bin++) {
+      let lo = min[bin];
+      let hi = max[bin];
+      const end = Math.min(data.length, (bin + 1) * SAMPLES_PER_BIN);
+      for (let i = bin * SAMPLES_PER_BIN; i < end; i++) {
+        if (data[i] < lo) lo = data[i];
+        if (data[i] > hi) hi = data[i];
+      }
+      min[bin] = lo;
+      max[bin] = hi;
+      if (hi >= CLIP_LEVEL || lo <= -CLIP_LEVEL) clipped[bin] = 1;
+    }
+  }
+
+  const levels: PeakLevel[] = [{ min, max, clipped, binSeconds: SAMPLES_PER_BIN / buffer.sampleRate }];
+  for (let level = levels[0]; level.min.length > 1; level = levels[levels.length - 1]) {
+    const bins = Math.ceil(level.min.length / 2);
+    const next: PeakLevel = { min: new Float32Array(bins), max: new Float32Array(bins), clipped: new Uint8Array(bins), binSeconds: level.binSeconds * 2 };
+    for (let bin = 0; bin < bins; bin++) {
+      const pair = Math.min(2 * bin + 1, level.min.length - 1);
+      next.min[bin] = Math.min(level.min[2 * bin], level.min[pair]);
+      next.max[bin] = Math.max(level.max[2 * bin], level.max[pair]);
+      next.clipped[bin] = level.clipped[2 * bin] | level.clipped[pair];
+    }
+    levels.push(next);
+  }
+  return { binSeconds: levels[0].binSeconds, levels };
+}
+
+// Peaks are kept per blob, so a clip is decoded once however often it is drawn
+const cache = new WeakMap<Blob, Promise<WaveformPeaks>>();
+
+export function loadPeaks(blob: Blob): Promise<WaveformPeaks> {
+  let peaks = cache.get(blob);
+  if (!peaks) {
+    peaks = decodeAudioFile(blob, new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE)).then(computePeaks);
+    // A failed decode can be retried
+    peaks.catch(() => cache.delete(blob));
+    cache.set(blob, peaks);
+  }
+  return peaks;
+}
+
+// The envelope between two times, read from the coarsest level that still
+// resolves the span; spans shorter than a bin use the bin they fall in
+export function getPeakColumn(peaks: WaveformPeaks, from: number, to: number): PeakColumn | null {
+  let levelIndex = 0;
+  while (levelIndex + 1 < peaks.levels.length && peaks.levels[levelIndex + 1].binSeconds <= to - from) levelIndex++;
+  const level = peaks.levels[levelIndex];
+
+  const first = Math.floor(from / level.binSeconds);
+  const last = Math.max(first + 1, Math.ceil(to / level.binSeconds));
+  if (first < 0 || first >= level.min.length) return null;
+  let min = 0;
+  let max = 0;
+  let clipped = false;
+  for (let bin = first; bin < Math.min(last, level.min.length); bin++) {
+    if (level.min[bin] < min) min = level.min[bin];
+    if (level.max[bin] > max) max = level.max[bin];
+    if (level.clipped[bin]) clipped = true;
+  }
+  return { min, max, clipped };
+}
@@ -0,0 +1,48 @@
+// Web Audio stand-ins for tests: Node has no AudioBuffer or AudioContext, and
+// the code under test only reads and writes channel data.
+
+class FakeAudioBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  private readonly channels: Float32Array[];
+
+  constructor(channels: Float32Array[], sampleRate: number) {
+    this.channels = channels;
+    this.numberOfChannels = channels.length;
+    this.length = channels[0]?.length ?? 0;
+    this.sampleRate = sampleRate;
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset = 0) {
+    this.channels[channel].set(source.subarray(0, this.length - offset), offset);
+  }
+
+  copyFromChannel(target: Float32Array, channel: number, offset = 0) {
+    target.set(this.channels[channel].subarray(offset, offset + target.length));
+  }
+}
+
+export const createTestBuffer = (channels: Float32Array[], sampleRate: number) =>
+  new FakeAudioBuffer(channels, sampleRate) as unknown as AudioBuffer;
+
+export const createTestContext = (sampleRate: number) => ({
+  sampleRate,
+  createBuffer: (numberOfChannels: number, length: number, rate: number) =>
+    createTestBuffer(Array.from({ length: numberOfChannels }, () => new Float32Array(length)), rate),
+}) as unknown as BaseAudioContext;
+
+// A sine tone at the given level, in full-scale amplitude
+export function createTone(frequency: number, seconds: number, sampleRate: number, amplitude = 0.5, channels = 1): AudioBuffer {
+  const data = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < data.length; i++) data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  return createTestBuffer(Array.from({ length: channels }, () => data.slice()), sampleRate);
+}
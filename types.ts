@@ -25,14 +25,31 @@ export interface ScriptLine {
   id: string;
   characterId: string;
   text: string;
+  direction?: string; // How to deliver the line, e.g. "whispering"; never spoken
+  scene?: string; // Scene heading shown as a marker above the line; never spoken
+  padding?: ClipPadding; // Overrides the project padding for this line's clip
+  // Per-line rendering only; absent until the line is generated on its own
+  audio?: GeneratedAudio | null;
+  status?: 'idle' | 'generating' | 'success' | 'error';
+  error?: string | null;
+  generatedFrom?: string; // Text, voice and direction the audio was generated from, to detect edits
 }
 
 export type AppMode = 'NARRATION' | 'DIALOGUE' | 'CLONING' | 'TRANSCRIPTION';
 
+// A word of the source text and when it is spoken
+export interface AlignedWord {
+  text: string;
+  start: number; // in seconds
+  end: number;
+  sentence: number; // Index of the sentence it belongs to
+}
+
 export interface GeneratedAudio {
   blob: Blob;
   url: string;
   duration: number; // in seconds (estimated or actual)
+  alignment?: AlignedWord[]; // Estimated from the text it was generated from, for read-along
 }
 
 export interface Subsection {
@@ -40,9 +57,12 @@ export interface Subsection {
   name: string;
   text: string;
   voice: VoiceName;
+  direction?: string; // Delivery/style instruction, e.g. "slow and clear"; never spoken
+  padding?: ClipPadding; // Overrides the project padding for this clip
   audio: GeneratedAudio | null;
   status: 'idle' | 'generating' | 'success' | 'error';
   error: string | null;
+  generatedFrom?: string; // Text, voice and direction the audio was generated from, to detect edits
 }
 
 export interface Snippet {
@@ -50,8 +70,181 @@ export interface Snippet {
   name: string; // Section Name
   text: string;
   voice: VoiceName;
+  direction?: string; // Delivery/style instruction, e.g. "slow and clear"; never spoken
+  padding?: ClipPadding; // Overrides the project padding for this clip
   audio: GeneratedAudio | null;
   status: 'idle' | 'generating' | 'success' | 'error';
   error: string | null;
+  generatedFrom?: string; // Text, voice and direction the audio was generated from, to detect edits
   subsections: Subsection[];
-}
\ No newline at end of file
+}
+
+export interface UploadedAudio {
+  name: string;
+  data: string; // Base64 string of the audio file
+  mimeType: string;
+}
+
+// Music or ambience mixed under a rendered program
+export interface MusicBedSettings {
+  audio: UploadedAudio | null;
+  fit: 'loop' | 'once'; // Repeat to cover the program, or play once and stop
+  gainDb: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  duckDb: number; // How far the music drops while someone is speaking
+}
+
+export interface ProgramSettings {
+  sectionGapSeconds: number;
+  subsectionGapSeconds: number;
+  // Which clips make up the program: everything, only full sections, or
+  // subsections in place of their section (sections without any fall back to their own audio)
+  content: 'all' | 'sections' | 'subsections';
+  intro: UploadedAudio | null;
+  outro: UploadedAudio | null;
+  music: MusicBedSettings;
+}
+
+// Pronunciation fix applied to text before it is sent for synthesis
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  replacement: string; // Respelling or phonetic hint, e.g. "jif" for "GIF"
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface DialogueSettings {
+  // Whole script in multi-speaker requests, or one clip per line joined with gaps
+  renderMode: 'combined' | 'perLine';
+  lineGapSeconds: number;
+}
+
+// Silence kept before and after a clip once its own silence is trimmed
+export interface ClipPadding {
+  headSeconds: number;
+  tailSeconds: number;
+}
+
+export interface SilenceSettings extends ClipPadding {
+  enabled: boolean; // Trim and re-pad generated clips
+  thresholdDb: number; // Anything quieter counts as silence
+}
+
+export interface LoudnessSettings {
+  targetLufs: number | null; // Integrated loudness to normalize to; null leaves levels as generated
+  truePeakDbtp: number; // Limiter ceiling
+  // 'clip' brings every clip to the target on its own; 'project' gives all clips
+  // one shared gain on export so their relative levels are kept
+  scope: 'clip' | 'project';
+}
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac' | 'opus';
+
+// 16 and 24 are integer PCM, 32 is floating point
+export type WavBitDepth = 16 | 24 | 32;
+
+// A named position in an exported file
+export interface WavCue {
+  time: number; // in seconds
+  label: string;
+}
+
+// Tags embedded in exported WAV files (LIST/INFO, Broadcast WAV `bext`, cue markers)
+export interface WavMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string;
+  subject?: string;
+  software?: string;
+  date?: string; // INFO creation date, YYYY-MM-DD
+  description?: string; // bext, at most 256 bytes
+  originator?: string;
+  originatorReference?: string;
+  createdAt?: Date;
+  codingHistory?: string;
+  cues?: WavCue[];
+}
+
+// What an export knows about a clip, turned into WavMetadata when it is encoded
+export interface ClipMetadata {
+  title: string;
+  voice?: string;
+  appName: string;
+  featureName: string;
+  text?: string; // Spoken text; its sentences become cue markers
+  markers?: WavCue[]; // Known boundaries (chapters), used instead of sentence markers
+}
+
+// File format for downloads and ZIP exports; generated audio is always kept as 24 kHz 16-bit WAV
+export interface ExportSettings {
+  format: ExportFormat;
+  mp3BitrateKbps: number;
+  opusBitrateKbps: number;
+  sampleRate: number | null; // null keeps the generated rate
+  bitDepth: WavBitDepth; // WAV and FLAC (which tops out at 24) only
+  channels: 1 | 2 | null; // null keeps the generated channel count
+}
+
+// Where a timeline clip's audio comes from. Generated clips are referenced so
+// they follow regenerations; imported files are stored with the clip.
+export type TimelineSource =
+  | { kind: 'section'; sectionId: string }
+  | { kind: 'subsection'; sectionId: string; subsectionId: string }
+  | { kind: 'line'; lineId: string }
+  | { kind: 'upload'; upload: UploadedAudio };
+
+export interface TimelineTrack {
+  id: string;
+  name: string;
+  gainDb: number;
+  muted: boolean;
+}
+
+export interface TimelineClip {
+  id: string;
+  trackId: string;
+  source: TimelineSource;
+  label: string;
+  start: number; // Position on the timeline, in seconds
+  offset: number; // Trimmed from the start of the source, in seconds
+  duration: number; // Length that plays, in seconds
+  sourceDuration: number; // Full length of the source when the clip was added
+  gainDb: number;
+}
+
+export interface Timeline {
+  tracks: TimelineTrack[];
+  clips: TimelineClip[];
+}
+
+// Everything needed to restore the editor to where the user left off
+export interface ProjectWorkspace {
+  mode: AppMode;
+  appName: string;
+  featureName: string;
+  narrationText: string;
+  narrationVoice: VoiceName;
+  snippets: Snippet[];
+  characters: Character[];
+  script: ScriptLine[];
+  cloningText: string;
+  cloningReference: UploadedAudio | null;
+  maxChunkChars: number;
+  programSettings: ProgramSettings;
+  lexicon: LexiconEntry[];
+  dialogueSettings: DialogueSettings;
+  timeline: Timeline;
+  loudness: LoudnessSettings;
+  silence: SilenceSettings;
+  exportSettings: ExportSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
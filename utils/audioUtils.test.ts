@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { createTestBuffer, createTestContext, createTone } from "../test/fakeAudio";
+import {
+  bufferToWavBlob, integrateLoudness, measureLoudness, measureLoudnessBlocks, measureTruePeak, normalizeLoudness, remixChannels, resampleBuffer
+} from "./audioUtils";
+
+const RATE = 48000;
+const ctx = createTestContext(RATE);
+
+const concat = (...buffers: AudioBuffer[]) => {
+  const data = new Float32Array(buffers.reduce((sum, b) => sum + b.length, 0));
+  let offset = 0;
+  for (const b of buffers) {
+    data.set(b.getChannelData(0), offset);
+    offset += b.length;
+  }
+  return createTestBuffer([data], buffers[0].sampleRate);
+};
+
+describe("measureLoudness", () => {
+  it("reads a full-scale 997 Hz sine as -3.01 LUFS, as BS.1770 specifies", () => {
+    expect(measureLoudness(createTone(997, 2, RATE, 1))).toBeCloseTo(-3.01, 1);
+  });
+
+  it("gives the same reading at the TTS rate", () => {
+    expect(measureLoudness(createTone(997, 2, 24000, 1))).toBeCloseTo(-3.01, 1);
+  });
+
+  it("sums channels", () => {
+    expect(measureLoudness(createTone(997, 2, RATE, 1, 2))).toBeCloseTo(0, 1);
+  });
+
+  it("is -Infinity for silence", () => {
+    expect(measureLoudness(createTestBuffer([new Float32Array(RATE)], RATE))).toBe(-Infinity);
+  });
+
+  it("leaves quiet passages out through the relative gate", () => {
+    const mixed = concat(createTone(997, 2, RATE, 1), createTone(997, 2, RATE, 0.01));
+    expect(measureLoudness(mixed)).toBeGreaterThan(-3.6);
+  });
+
+  it("pools blocks from several clips", () => {
+    const blocks = [createTone(997, 1, RATE, 1), createTone(997, 1, RATE, 0.5)].flatMap(measureLoudnessBlocks);
+    const pooled = integrateLoudness(blocks);
+    expect(pooled).toBeLessThan(-3.01);
+    expect(pooled).toBeGreaterThan(-9.03);
+  });
+});
+
+describe("measureTruePeak", () => {
+  it("finds peaks between samples", () => {
+    // A quarter-rate sine sampled 45 degrees off its peaks never hits them
+    const data = new Float32Array(RATE / 10).map((_, i) => Math.sin(Math.PI / 2 * i + Math.PI / 4));
+    const buffer = createTestBuffer([data], RATE);
+    expect(20 * Math.log10(Math.max(...data))).toBeCloseTo(-3.01, 1);
+    expect(measureTruePeak(buffer)).toBeGreaterThan(-0.5);
+  });
+});
+
+describe("normalizeLoudness", () => {
+  it("brings a clip to the target loudness", () => {
+    const normalized = normalizeLoudness(createTone(997, 2, RATE, 0.5), -16, -1, ctx);
+    expect(measureLoudness(normalized)).toBeCloseTo(-16, 1);
+  });
+
+  it("keeps the true peak under the ceiling when the target is loud", () => {
+    const normalized = normalizeLoudness(createTone(997, 2, RATE, 0.1), -3, -1, ctx);
+    expect(measureTruePeak(normalized)).toBeLessThanOrEqual(-1 + 0.05);
+  });
+
+  it("returns silence as it is", () => {
+    const silence = createTestBuffer([new Float32Array(RATE)], RATE);
+    expect(normalizeLoudness(silence, -16, -1, ctx)).toBe(silence);
+  });
+});
+
+// RMS level in dB of the middle of a channel, away from the filter's edges
+const rmsDb = (data: Float32Array) => {
+  const middle = data.subarray(Math.floor(data.length / 4), Math.floor(data.length * 3 / 4));
+  return 10 * Math.log10(middle.reduce((sum, x) => sum + x * x, 0) / middle.length);
+};
+
+const zeroCrossings = (data: Float32Array) => data.reduce((count, x, i) => count + (i > 0 && (data[i - 1] < 0) !== (x < 0) ? 1 : 0), 0);
+
+describe("resampleBuffer", () => {
+  it("returns the buffer itself at the same rate", () => {
+    const tone = createTone(1000, 0.1, 24000);
+    expect(resampleBuffer(tone, 24000, ctx)).toBe(tone);
+  });
+
+  it("keeps the level, pitch and duration of a tone when upsampling", () => {
+    const tone = createTone(1000, 0.2, 24000);
+    const up = resampleBuffer(tone, 44100, ctx);
+    expect(up.sampleRate).toBe(44100);
+    expect(up.length).toBe(Math.round(tone.length * 44100 / 24000));
+    expect(rmsDb(up.getChannelData(0))).toBeCloseTo(rmsDb(tone.getChannelData(0)), 1);
+    expect(Math.abs(zeroCrossings(up.getChannelData(0)) - zeroCrossings(tone.getChannelData(0)))).toBeLessThanOrEqual(1);
+  });
+
+  it("filters out content above the new Nyquist frequency when downsampling", () => {
+    const down = resampleBuffer(createTone(15000, 0.2, 48000), 24000, ctx);
+    expect(rmsDb(down.getChannelData(0))).toBeLessThan(-60);
+    const kept = resampleBuffer(createTone(5000, 0.2, 48000), 24000, ctx);
+    expect(rmsDb(kept.getChannelData(0))).toBeCloseTo(rmsDb(createTone(5000, 0.2, 24000).getChannelData(0)), 1);
+  });
+});
+
+describe("remixChannels", () => {
+  it("copies mono to every channel", () => {
+    const stereo = remixChannels(createTone(440, 0.01, RATE), 2, ctx);
+    expect(stereo.numberOfChannels).toBe(2);
+    expect(stereo.getChannelData(1)).toEqual(stereo.getChannelData(0));
+  });
+
+  it("averages other layouts down to mono", () => {
+    const left = new Float32Array([1, 0.5]);
+    const right = new Float32Array([0, -0.5]);
+    const mono = remixChannels(createTestBuffer([left, right], RATE), 1, ctx);
+    expect(Array.from(mono.getChannelData(0))).toEqual([0.5, 0]);
+  });
+});
+
+describe("bufferToWavBlob", () => {
+  const samples = createTestBuffer([new Float32Array([0.5, -1, 2])], 44100);
+  const header = async (bitDepth: 16 | 24 | 32) => {
+    const view = new DataView(await bufferToWavBlob(samples, bitDepth).arrayBuffer());
+    return { view, format: view.getUint16(20, true), rate: view.getUint32(24, true), bits: view.getUint16(34, true) };
+  };
+
+  it("writes 16-bit PCM, clamping out-of-range samples", async () => {
+    const { view, format, rate, bits } = await header(16);
+    expect([format, rate, bits]).toEqual([1, 44100, 16]);
+    expect([view.getInt16(44, true), view.getInt16(46, true), view.getInt16(48, true)]).toEqual([16384, -32768, 32767]);
+  });
+
+  it("writes 24-bit PCM", async () => {
+    const { view, bits } = await header(24);
+    expect(bits).toBe(24);
+    const sample = (offset: number) => (view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset);
+    expect([sample(44), sample(47), sample(50)]).toEqual([4194304, -8388608, 8388607]);
+  });
+
+  it("writes 32-bit float with a fact chunk", async () => {
+    const { view, format, bits } = await header(32);
+    expect([format, bits]).toEqual([3, 32]);
+    expect(view.getUint32(46, true)).toBe(3); // Frames in the fact chunk
+    expect([view.getFloat32(58, true), view.getFloat32(62, true), view.getFloat32(66, true)]).toEqual([0.5, -1, 1]);
+  });
+});
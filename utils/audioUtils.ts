@@ -1,3 +1,9 @@
+import { WavBitDepth, WavMetadata } from '../types';
+import { encodeWavMetadata, readWavMetadata } from './wavMetadata';
+
+// Gemini TTS preview typically returns 24kHz mono audio
+export const TTS_SAMPLE_RATE = 24000;
+
 // Utility to convert Base64 string to Uint8Array
 function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -9,6 +15,16 @@ function base64ToUint8Array(base64: string): Uint8Array {
   return bytes;
 }
 
+// Utility to convert Uint8Array to a Base64 string (chunked to stay under call stack limits)
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binaryString);
+}
+
 // Decodes the raw PCM data from Gemini into an AudioBuffer
 export async function decodeAudioData(
   base64Data: string,
@@ -19,8 +35,7 @@ export async function decodeAudioData(
   // Create a view to read the 16-bit PCM data
   const dataInt16 = new Int16Array(audioBytes.buffer);
   
-  // Gemini TTS preview typically returns 24kHz mono audio
-  const sampleRate = 24000;
+  const sampleRate = TTS_SAMPLE_RATE;
   const numChannels = 1;
   const frameCount = dataInt16.length;
   
@@ -36,16 +51,48 @@ export async function decodeAudioData(
   return audioBuffer;
 }
 
-// Creates a WAV blob from AudioBuffer for downloading
-export function bufferToWavBlob(buffer: AudioBuffer): Blob {
+// Decodes a complete audio file (WAV, MP3, WebM...) given as a Blob or Base64 string.
+// The result is resampled to the context's sample rate.
+export async function decodeAudioFile(
+  file: Blob | string,
+  audioContext: BaseAudioContext
+): Promise<AudioBuffer> {
+  const bytes = typeof file === 'string' ? base64ToUint8Array(file) : new Uint8Array(await file.arrayBuffer());
+  return audioContext.decodeAudioData(bytes.buffer as ArrayBuffer);
+}
+
+// Reads the tags and cue markers of a WAV file; null for other formats
+export async function readAudioMetadata(file: Blob | string): Promise<WavMetadata | null> {
+  const bytes = typeof file === 'string' ? base64ToUint8Array(file) : new Uint8Array(await file.arrayBuffer());
+  return readWavMetadata(bytes.buffer as ArrayBuffer);
+}
+
+export function createSilence(seconds: number, audioContext: BaseAudioContext, numChannels = 1): AudioBuffer {
+  const frames = Math.max(1, Math.round(seconds * audioContext.sampleRate));
+  return audioContext.createBuffer(numChannels, frames, audioContext.sampleRate);
+}
+
+// Creates a WAV blob from AudioBuffer for downloading. 16 and 24 bits are
+// integer PCM, 32 bits is IEEE float. Metadata adds tag chunks before the
+// audio and cue markers after it.
+export function bufferToWavBlob(buffer: AudioBuffer, bitDepth: WavBitDepth = 16, metadata?: WavMetadata): Blob {
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
+  const bytesPerSample = bitDepth / 8;
+  const isFloat = bitDepth === 32;
+  const { leading, trailing } = metadata
+    ? encodeWavMetadata(metadata, buffer.sampleRate)
+    : { leading: new Uint8Array(0), trailing: new Uint8Array(0) };
+  // Non-PCM formats carry a cbSize field and a fact chunk
+  const headerLength = (isFloat ? 58 : 44) + leading.length;
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+  const dataPadding = dataLength % 2; // Chunks start on even offsets
+  const length = headerLength + dataLength + dataPadding + trailing.length;
   const bufferArray = new ArrayBuffer(length);
   const view = new DataView(bufferArray);
   const channels = [];
   let i;
   let sample;
-  let offset = 0;
+  let offset = headerLength;
   let pos = 0;
 
   // write WAVE header
@@ -54,31 +101,54 @@ export function bufferToWavBlob(buffer: AudioBuffer): Blob {
   setUint32(0x45564157); // "WAVE"
 
   setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
+  setUint32(isFloat ? 18 : 16); // chunk length
+  setUint16(isFloat ? 3 : 1); // IEEE float or PCM (uncompressed)
   setUint16(numOfChan);
   setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this example)
+  setUint32(buffer.sampleRate * bytesPerSample * numOfChan); // avg. bytes/sec
+  setUint16(numOfChan * bytesPerSample); // block-align
+  setUint16(bitDepth);
+
+  if (isFloat) {
+    setUint16(0); // cbSize
+    setUint32(0x74636166); // "fact" chunk
+    setUint32(4);
+    setUint32(buffer.length); // sample frames
+  }
+
+  new Uint8Array(bufferArray).set(leading, pos);
+  pos += leading.length;
 
   setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
+  setUint32(dataLength); // chunk length
 
   // write interleaved data
   for (i = 0; i < buffer.numberOfChannels; i++)
     channels.push(buffer.getChannelData(i));
 
+  const scale = Math.pow(2, bitDepth - 1);
+  pos = 0;
   while (pos < buffer.length) {
     for (i = 0; i < numOfChan; i++) {
       // interleave channels
       sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true); // write 16-bit sample
-      offset += 2;
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        sample = Math.max(-scale, Math.min(scale - 1, Math.round(sample * scale))); // scale to signed int
+        if (bitDepth === 16) {
+          view.setInt16(offset, sample, true);
+        } else {
+          // 24-bit little-endian
+          view.setUint8(offset, sample & 0xff);
+          view.setInt16(offset + 1, sample >> 8, true);
+        }
+      }
+      offset += bytesPerSample;
     }
     pos++;
   }
+  new Uint8Array(bufferArray).set(trailing, offset + dataPadding);
 
   return new Blob([bufferArray], { type: 'audio/wav' });
 
@@ -92,3 +162,397 @@ export function bufferToWavBlob(buffer: AudioBuffer): Blob {
     pos += 4;
   }
 }
+
+// Joins buffers end to end, overlapping each boundary with an equal-power crossfade
+export function concatAudioBuffers(
+  buffers: AudioBuffer[],
+  audioContext: BaseAudioContext,
+  crossfadeSeconds = 0
+): AudioBuffer {
+  if (buffers.length === 0) {
+    throw new Error("No audio to join.");
+  }
+  const sampleRate = buffers[0].sampleRate;
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const fadeFrames = Math.floor(crossfadeSeconds * sampleRate);
+
+  // A fade can't be longer than either of the clips it joins
+  const overlaps = buffers.slice(1).map((b, i) => Math.min(fadeFrames, b.length, buffers[i].length));
+  const totalFrames = buffers.reduce((sum, b) => sum + b.length, 0) - overlaps.reduce((sum, o) => sum + o, 0);
+
+  const output = audioContext.createBuffer(numChannels, Math.max(1, totalFrames), sampleRate);
+
+  for (let ch = 0; ch < numChannels; ch++) {
+    const out = output.getChannelData(ch);
+    let offset = 0;
+    buffers.forEach((buffer, i) => {
+      // Mono sources are spread across every output channel
+      const data = buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1));
+      const overlap = i > 0 ? overlaps[i - 1] : 0;
+      const start = offset - overlap;
+
+      for (let n = 0; n < data.length; n++) {
+        if (n < overlap) {
+          const t = (n + 0.5) / overlap;
+          out[start + n] = out[start + n] * Math.cos(t * Math.PI / 2) + data[n] * Math.sin(t * Math.PI / 2);
+        } else {
+          out[start + n] = data[n];
+        }
+      }
+      offset = start + data.length;
+    });
+  }
+
+  return output;
+}
+
+// --- Silence ---
+
+const SILENCE_WINDOW_SECONDS = 0.01;
+
+// Whether each 10 ms window's RMS (loudest channel) is above the threshold
+function audibleWindows(buffer: AudioBuffer, thresholdDb: number): { audible: Uint8Array; window: number } {
+  const window = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * buffer.sampleRate));
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const audible = new Uint8Array(Math.ceil(buffer.length / window));
+
+  for (let w = 0; w < audible.length; w++) {
+    const start = w * window;
+    const end = Math.min(buffer.length, start + window);
+    for (let ch = 0; ch < buffer.numberOfChannels && !audible[w]; ch++) {
+      const data = buffer.getChannelData(ch);
+      let sum = 0;
+      for (let n = start; n < end; n++) sum += data[n] * data[n];
+      if (Math.sqrt(sum / (end - start)) > threshold) audible[w] = 1;
+    }
+  }
+  return { audible, window };
+}
+
+// Frame range [start, end) between the first and last 10 ms window whose RMS
+// (loudest channel) is above the threshold. Null when the whole clip is silent.
+export function detectSilence(buffer: AudioBuffer, thresholdDb: number): { start: number; end: number } | null {
+  const { audible, window } = audibleWindows(buffer, thresholdDb);
+  const first = audible.indexOf(1);
+  if (first === -1) return null;
+  const last = audible.lastIndexOf(1);
+  return { start: first * window, end: Math.min(buffer.length, (last + 1) * window) };
+}
+
+// Quiet stretches of at least minSeconds between audible audio, as frame
+// ranges [start, end). Leading and trailing silence is not included.
+export function detectPauses(buffer: AudioBuffer, thresholdDb: number, minSeconds: number): { start: number; end: number }[] {
+  const { audible, window } = audibleWindows(buffer, thresholdDb);
+  const minWindows = Math.max(1, Math.round(minSeconds / SILENCE_WINDOW_SECONDS));
+  const pauses: { start: number; end: number }[] = [];
+
+  let w = audible.indexOf(1);
+  const last = audible.lastIndexOf(1);
+  while (w !== -1 && w < last) {
+    const quietStart = audible.indexOf(0, w);
+    if (quietStart === -1 || quietStart > last) break;
+    const quietEnd = audible.indexOf(1, quietStart);
+    if (quietEnd - quietStart >= minWindows) pauses.push({ start: quietStart * window, end: quietEnd * window });
+    w = quietEnd;
+  }
+  return pauses;
+}
+
+// Cuts leading and trailing silence, then adds exact head and tail silence.
+// A silent clip is returned unchanged.
+export function trimAndPadSilence(
+  buffer: AudioBuffer,
+  thresholdDb: number,
+  headSeconds: number,
+  tailSeconds: number,
+  audioContext: BaseAudioContext
+): AudioBuffer {
+  const range = detectSilence(buffer, thresholdDb);
+  if (!range) return buffer;
+  const head = Math.round(Math.max(0, headSeconds) * buffer.sampleRate);
+  const tail = Math.round(Math.max(0, tailSeconds) * buffer.sampleRate);
+  const length = range.end - range.start;
+
+  const output = audioContext.createBuffer(buffer.numberOfChannels, head + length + tail, buffer.sampleRate);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    output.getChannelData(ch).set(buffer.getChannelData(ch).subarray(range.start, range.end), head);
+  }
+  return output;
+}
+
+// --- Loudness (ITU-R BS.1770-4) ---
+
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_STEP_SECONDS = 0.1; // Blocks overlap by 75%
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// K-weighting (high shelf then high pass), derived for any sample rate so it
+// matches the 48 kHz reference coefficients from the standard
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = [
+    (Vh + Vb * K / Q + K * K) / a0,
+    2 * (K * K - Vh) / a0,
+    (Vh - Vb * K / Q + K * K) / a0,
+    2 * (K * K - 1) / a0,
+    (1 - K / Q + K * K) / a0,
+  ];
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+  return [shelf, highPass];
+}
+
+// Mean square of the K-weighted signal in every gating block, summed over
+// channels. Clips shorter than one block are measured as a single block.
+export function measureLoudnessBlocks(buffer: AudioBuffer): number[] {
+  const step = Math.round(LOUDNESS_STEP_SECONDS * buffer.sampleRate);
+  const stepsPerBlock = Math.round(LOUDNESS_BLOCK_SECONDS / LOUDNESS_STEP_SECONDS);
+  const steps = Math.ceil(buffer.length / step);
+  const energy = new Float64Array(steps);
+  const filters = kWeightingFilters(buffer.sampleRate);
+
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    let data: Float32Array = buffer.getChannelData(ch);
+    for (const [b0, b1, b2, a1, a2] of filters) {
+      const filtered = new Float32Array(data.length);
+      let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+      for (let n = 0; n < data.length; n++) {
+        const y = b0 * data[n] + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        x2 = x1; x1 = data[n]; y2 = y1; y1 = y;
+        filtered[n] = y;
+      }
+      data = filtered;
+    }
+    for (let n = 0; n < data.length; n++) energy[Math.floor(n / step)] += data[n] * data[n];
+  }
+
+  if (steps < stepsPerBlock) {
+    const total = energy.reduce((sum, e) => sum + e, 0);
+    return buffer.length > 0 ? [total / buffer.length] : [];
+  }
+  const blocks: number[] = [];
+  for (let b = 0; b + stepsPerBlock <= steps; b++) {
+    let sum = 0;
+    for (let s = b; s < b + stepsPerBlock; s++) sum += energy[s];
+    blocks.push(sum / (step * stepsPerBlock));
+  }
+  return blocks;
+}
+
+const blockLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+// Gated integrated loudness of a set of blocks, possibly pooled from several
+// clips. -Infinity when everything is below the absolute gate (silence).
+export function integrateLoudness(blocks: number[]): number {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const audible = blocks.filter(p => blockLoudness(p) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = blockLoudness(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter(p => blockLoudness(p) > relativeGate);
+  return blockLoudness(mean(gated));
+}
+
+// Integrated loudness in LUFS
+export const measureLoudness = (buffer: AudioBuffer) => integrateLoudness(measureLoudnessBlocks(buffer));
+
+// 4x oversampling as suggested for true-peak metering: a windowed-sinc
+// interpolator evaluated at the three points between each pair of samples
+const OVERSAMPLE_TAPS = 6; // Per side
+const OVERSAMPLE_KERNELS = [0.25, 0.5, 0.75].map(phase => {
+  const kernel = new Float32Array(OVERSAMPLE_TAPS * 2);
+  for (let k = 0; k < kernel.length; k++) {
+    const t = k - OVERSAMPLE_TAPS + 1 - phase;
+    const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+    kernel[k] = sinc * 0.5 * (1 + Math.cos(Math.PI * t / OVERSAMPLE_TAPS));
+  }
+  return kernel;
+});
+
+// Largest absolute value at or just after each sample, across all channels,
+// including the reconstructed peaks between samples
+function truePeakEnvelope(buffer: AudioBuffer): Float32Array {
+  const peaks = new Float32Array(buffer.length);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let n = 0; n < data.length; n++) {
+      let peak = Math.abs(data[n]);
+      for (const kernel of OVERSAMPLE_KERNELS) {
+        let value = 0;
+        for (let k = 0; k < kernel.length; k++) {
+          const i = n + k - OVERSAMPLE_TAPS + 1;
+          if (i >= 0 && i < data.length) value += data[i] * kernel[k];
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+      peaks[n] = Math.max(peaks[n], peak);
+    }
+  }
+  return peaks;
+}
+
+// True peak in dBTP
+export function measureTruePeak(buffer: AudioBuffer): number {
+  const peaks = truePeakEnvelope(buffer);
+  let max = 0;
+  for (let n = 0; n < peaks.length; n++) max = Math.max(max, peaks[n]);
+  return 20 * Math.log10(max);
+}
+
+const LIMITER_ATTACK_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.1;
+
+// Applies a gain, then a look-ahead limiter that keeps the true peak under the
+// ceiling. The gain reduction ramps down before each peak and recovers after it.
+export function applyGainWithLimiter(
+  buffer: AudioBuffer,
+  gainDb: number,
+  ceilingDbtp: number,
+  audioContext: BaseAudioContext
+): AudioBuffer {
+  const gain = Math.pow(10, gainDb / 20);
+  const ceiling = Math.pow(10, ceilingDbtp / 20);
+  const length = buffer.length;
+  const peaks = truePeakEnvelope(buffer);
+
+  // Gain each sample may have at most
+  const allowed = new Float32Array(length);
+  for (let n = 0; n < length; n++) {
+    const peak = peaks[n] * gain;
+    allowed[n] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Minimum over the look-ahead window, released slowly, then averaged over the
+  // same window. Every sample's window average only includes values that were
+  // already at or below its own allowance, so the ceiling holds.
+  const window = Math.max(1, Math.round(LIMITER_ATTACK_SECONDS * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * buffer.sampleRate));
+  const held = new Float32Array(length);
+  const deque = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  let level = 1;
+  for (let n = length - 1; n >= 0; n--) {
+    // Sliding minimum of allowed[n .. n + window)
+    while (tail > head && allowed[deque[tail - 1]] >= allowed[n]) tail--;
+    deque[tail++] = n;
+    if (deque[head] >= n + window) head++;
+    held[n] = allowed[deque[head]];
+  }
+  for (let n = 0; n < length; n++) {
+    level = Math.min(held[n], level + (1 - level) * release);
+    held[n] = level;
+  }
+
+  const output = audioContext.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    const out = output.getChannelData(ch);
+    // Before the start the gain is taken to be the first sample's
+    let sum = held[0] * window;
+    for (let n = 0; n < length; n++) {
+      sum += held[n] - held[Math.max(0, n - window)];
+      out[n] = Math.max(-ceiling, Math.min(ceiling, data[n] * gain * sum / window));
+    }
+  }
+  return output;
+}
+
+// Brings a clip to the target integrated loudness. Silent clips are returned as they are.
+export function normalizeLoudness(
+  buffer: AudioBuffer,
+  targetLufs: number,
+  ceilingDbtp: number,
+  audioContext: BaseAudioContext
+): AudioBuffer {
+  const loudness = measureLoudness(buffer);
+  if (!isFinite(loudness)) return buffer;
+  return applyGainWithLimiter(buffer, targetLufs - loudness, ceilingDbtp, audioContext);
+}
+
+// Band-limited resampling with a Kaiser-windowed sinc. The kernel is tabulated
+// at fine fractional offsets and interpolated, so any pair of rates works.
+const RESAMPLE_ZERO_CROSSINGS = 24; // Per side, at the lower of the two rates
+const RESAMPLE_TABLE_RESOLUTION = 512; // Kernel points per input sample
+const RESAMPLE_KAISER_BETA = 9;
+const RESAMPLE_ROLLOFF = 0.95; // Passband edge as a fraction of the lower Nyquist
+
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50 && term > sum * 1e-12; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+  }
+  return sum;
+}
+
+export function resampleBuffer(buffer: AudioBuffer, sampleRate: number, audioContext: BaseAudioContext): AudioBuffer {
+  if (buffer.sampleRate === sampleRate) return buffer;
+
+  const ratio = sampleRate / buffer.sampleRate;
+  // Downsampling lowers the cutoff below the new Nyquist to avoid aliasing
+  const cutoff = Math.min(1, ratio) * RESAMPLE_ROLLOFF;
+  const halfWidth = RESAMPLE_ZERO_CROSSINGS / cutoff; // In input samples
+
+  // One side of the symmetric kernel, plus a guard point for interpolation
+  const table = new Float32Array(Math.ceil(halfWidth * RESAMPLE_TABLE_RESOLUTION) + 2);
+  const i0Beta = besselI0(RESAMPLE_KAISER_BETA);
+  for (let i = 0; i < table.length; i++) {
+    const x = i / RESAMPLE_TABLE_RESOLUTION;
+    if (x >= halfWidth) break;
+    const t = Math.PI * cutoff * x;
+    const sinc = x === 0 ? 1 : Math.sin(t) / t;
+    const w = x / halfWidth;
+    table[i] = cutoff * sinc * besselI0(RESAMPLE_KAISER_BETA * Math.sqrt(1 - w * w)) / i0Beta;
+  }
+
+  const length = Math.max(1, Math.round(buffer.length * ratio));
+  const output = audioContext.createBuffer(buffer.numberOfChannels, length, sampleRate);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    const out = output.getChannelData(ch);
+    for (let n = 0; n < length; n++) {
+      const t = n / ratio; // Position in the input
+      const first = Math.max(0, Math.ceil(t - halfWidth));
+      const last = Math.min(data.length - 1, Math.floor(t + halfWidth));
+      let sum = 0;
+      for (let k = first; k <= last; k++) {
+        const x = Math.abs(t - k) * RESAMPLE_TABLE_RESOLUTION;
+        const i = x | 0;
+        sum += data[k] * (table[i] + (table[i + 1] - table[i]) * (x - i));
+      }
+      out[n] = sum;
+    }
+  }
+  return output;
+}
+
+// Converts to the given channel count: mono is copied to every channel, and
+// anything else is averaged down to mono
+export function remixChannels(buffer: AudioBuffer, channels: number, audioContext: BaseAudioContext): AudioBuffer {
+  if (buffer.numberOfChannels === channels) return buffer;
+
+  const output = audioContext.createBuffer(channels, buffer.length, buffer.sampleRate);
+  if (channels === 1) {
+    const out = output.getChannelData(0);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      const data = buffer.getChannelData(ch);
+      for (let n = 0; n < buffer.length; n++) out[n] += data[n] / buffer.numberOfChannels;
+    }
+  } else {
+    for (let ch = 0; ch < channels; ch++) {
+      output.copyToChannel(buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1)), ch);
+    }
+  }
+  return output;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("reads quoted fields, doubled quotes and line breaks inside quotes", () => {
+    expect(parseCsv('\uFEFFa,"b, c","say ""hi"""\r\n"two\nlines",,x\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', '', 'x'],
+    ]);
+  });
+
+  it("skips blank lines but keeps rows of empty fields", () => {
+    expect(parseCsv('a\n\n  \n,\nb')).toEqual([['a'], ['', ''], ['b']]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only fields that need it, and round-trips through parseCsv", () => {
+    const rows = [['plain', 'with, comma', 'a "quote"'], [' padded ', 'line\nbreak', '']];
+    expect(toCsv(rows)).toBe('plain,"with, comma","a ""quote"""\r\n" padded ","line\nbreak",\r\n');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
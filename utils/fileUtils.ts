@@ -0,0 +1,19 @@
+// Builds a filesystem-safe name like "MyApp-Tutorial-Intro" from name parts
+export const formatFileName = (parts: (string | undefined)[]) => {
+  return parts
+      .filter(p => p && p.trim())
+      .map(p => p!.trim().replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-_]/g, ''))
+      .join('-');
+};
+
+// Triggers a browser download for an in-memory file
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,260 @@
+// Minimal FLAC encoder: fixed-blocksize frames, independent channels, and the
+// best of the fixed (order 0-4) predictors per subframe with partitioned Rice
+// coding. Compresses speech to roughly half the size of WAV, losslessly.
+
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 4;
+const MAX_RICE_PARAM = 14; // 15 is the escape code in 4-bit Rice parameters
+
+class BitWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private cur = 0;
+  private bits = 0;
+
+  private push(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  // Writes the low `count` bits of value, most significant first
+  write(value: number, count: number) {
+    while (count > 24) {
+      count -= 24;
+      this.write(Math.floor(value / Math.pow(2, count)) & 0xffffff, 24);
+    }
+    if (count === 0) return;
+    this.cur = (this.cur << count) | (value & ((1 << count) - 1));
+    this.bits += count;
+    while (this.bits >= 8) {
+      this.bits -= 8;
+      this.push((this.cur >>> this.bits) & 0xff);
+    }
+    this.cur &= (1 << this.bits) - 1;
+  }
+
+  writeZeros(count: number) {
+    while (count > 0) {
+      const n = Math.min(24, count);
+      this.write(0, n);
+      count -= n;
+    }
+  }
+
+  alignToByte() {
+    if (this.bits > 0) this.write(0, 8 - this.bits);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c8 = i;
+  let c16 = i << 8;
+  for (let b = 0; b < 8; b++) {
+    c8 = (c8 & 0x80 ? (c8 << 1) ^ 0x07 : c8 << 1) & 0xff;
+    c16 = (c16 & 0x8000 ? (c16 << 1) ^ 0x8005 : c16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = c8;
+  CRC16_TABLE[i] = c16;
+}
+
+const crc8 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+};
+
+// Residuals of the fixed polynomial predictors of each order
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const out = new Int32Array(samples.length - order);
+  for (let n = order; n < samples.length; n++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[n - 1]; break;
+      case 2: prediction = 2 * s[n - 1] - s[n - 2]; break;
+      case 3: prediction = 3 * s[n - 1] - 3 * s[n - 2] + s[n - 3]; break;
+      case 4: prediction = 4 * s[n - 1] - 6 * s[n - 2] + 4 * s[n - 3] - s[n - 4]; break;
+    }
+    out[n - order] = s[n] - prediction;
+  }
+  return out;
+}
+
+const fold = (v: number) => v >= 0 ? v * 2 : -v * 2 - 1;
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  params: number[];
+}
+
+// Cheapest partition order and per-partition Rice parameters for a residual
+function planRice(residual: Int32Array, blockSize: number, predictorOrder: number): RicePlan {
+  let best: RicePlan | null = null;
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= predictorOrder) break;
+    const size = blockSize / partitions;
+
+    let bits = 0;
+    const params: number[] = [];
+    let pos = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? size - predictorOrder : size;
+      let sum = 0;
+      for (let i = pos; i < pos + count; i++) sum += fold(residual[i]);
+      // Mean-based estimate; the neighbours are compared with an approximate cost
+      const estimate = sum > count ? Math.floor(Math.log2(sum / count)) : 0;
+      let bestParam = 0;
+      let bestBits = Infinity;
+      for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAM, estimate + 1); k++) {
+        const cost = count * (k + 1) + Math.ceil(sum / (1 << k));
+        if (cost < bestBits) {
+          bestBits = cost;
+          bestParam = k;
+        }
+      }
+      bits += 4 + bestBits;
+      params.push(bestParam);
+      pos += count;
+    }
+    if (!best || bits < best.bits) best = { bits, partitionOrder: order, params };
+  }
+  return best!;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number) {
+  if (samples.every(s => s === samples[0])) {
+    writer.write(0b00000000, 8); // CONSTANT
+    writer.write(samples[0], bitsPerSample);
+    return;
+  }
+
+  let best: { order: number; residual: Int32Array; plan: RicePlan } | null = null;
+  for (let order = 0; order <= 4 && order < samples.length; order++) {
+    const residual = fixedResiduals(samples, order);
+    const plan = planRice(residual, samples.length, order);
+    if (!best || plan.bits + order * bitsPerSample < best.plan.bits + best.order * bitsPerSample) {
+      best = { order, residual, plan };
+    }
+  }
+
+  const verbatimBits = samples.length * bitsPerSample;
+  if (!best || best.plan.bits + best.order * bitsPerSample >= verbatimBits) {
+    writer.write(0b00000010, 8); // VERBATIM
+    for (const s of samples) writer.write(s, bitsPerSample);
+    return;
+  }
+
+  writer.write((0b001000 | best.order) << 1, 8); // FIXED, no wasted bits
+  for (let i = 0; i < best.order; i++) writer.write(samples[i], bitsPerSample);
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(best.plan.partitionOrder, 4);
+  let pos = 0;
+  const partitions = 1 << best.plan.partitionOrder;
+  const size = samples.length / partitions;
+  for (let p = 0; p < partitions; p++) {
+    const k = best.plan.params[p];
+    const count = p === 0 ? size - best.order : size;
+    writer.write(k, 4);
+    for (let i = pos; i < pos + count; i++) {
+      const u = fold(best.residual[i]);
+      writer.writeZeros(Math.floor(u / (1 << k)));
+      writer.write(1, 1);
+      writer.write(u, k);
+    }
+    pos += count;
+  }
+}
+
+// Frame headers repeat the sample rate and depth (as libFLAC does) so every
+// frame can be decoded without STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+const SAMPLE_SIZE_CODES: Record<number, number> = { 16: 0b100, 24: 0b110 };
+
+// Frame numbers use the same variable-length coding as UTF-8
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // Continuation bytes carry 6 bits each; the lead byte has room for 6 - n bits
+  let extra = 1;
+  while (value >= Math.pow(2, 6 - extra + 6 * extra)) extra++;
+  const lead = (0xff00 >> (extra + 1)) & 0xff;
+  writer.write(lead | Math.floor(value / Math.pow(2, 6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3f), 8);
+  }
+}
+
+export function encodeFlac(buffer: AudioBuffer, bitsPerSample: 16 | 24 = 16): Blob {
+  const channels = buffer.numberOfChannels;
+  const length = buffer.length;
+  const scale = Math.pow(2, bitsPerSample - 1);
+  const writer = new BitWriter();
+
+  writer.write(0x664c6143, 32); // "fLaC"
+  // STREAMINFO, the only (and so last) metadata block
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24); // Frame sizes unknown
+  writer.write(0, 24);
+  writer.write(buffer.sampleRate, 20);
+  writer.write(channels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(length / 0x100000000), 4);
+  writer.write(length >>> 0, 32);
+  writer.writeZeros(128); // MD5 not computed
+
+  const data = Array.from({ length: channels }, (_, ch) => buffer.getChannelData(ch));
+  for (let frame = 0, start = 0; start < length; frame++, start += BLOCK_SIZE) {
+    const size = Math.min(BLOCK_SIZE, length - start);
+    const frameStart = writer.length;
+
+    writer.write(0xfff8, 16); // Sync code, fixed block size
+    writer.write(0b0111, 4); // Block size stored as 16 bits after the header
+    const rateCode = SAMPLE_RATE_CODES[buffer.sampleRate];
+    const rateInHz = rateCode === undefined && buffer.sampleRate <= 0xffff;
+    writer.write(rateCode ?? (rateInHz ? 0b1101 : 0b1110), 4);
+    writer.write(channels - 1, 4); // Independent channels
+    writer.write(SAMPLE_SIZE_CODES[bitsPerSample], 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frame);
+    writer.write(size - 1, 16);
+    if (rateCode === undefined) writer.write(rateInHz ? buffer.sampleRate : Math.round(buffer.sampleRate / 10), 16);
+    writer.write(crc8(writer.bytes, frameStart, writer.length), 8);
+
+    for (let ch = 0; ch < channels; ch++) {
+      const samples = new Int32Array(size);
+      for (let i = 0; i < size; i++) {
+        const s = Math.max(-1, Math.min(1, data[ch][start + i]));
+        samples[i] = Math.max(-scale, Math.min(scale - 1, Math.round(s * scale)));
+      }
+      writeSubframe(writer, samples, bitsPerSample);
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes, frameStart, writer.length), 16);
+  }
+
+  return new Blob([writer.bytes.slice(0, writer.length)], { type: 'audio/flac' });
+}
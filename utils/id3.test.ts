@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildId3Tag } from "./id3";
+
+const decoder = new TextDecoder('latin1');
+
+// Frame ids and bodies of an ID3v2.3 tag, or of the frames nested in a CHAP frame
+function readFrames(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames: { id: string; body: Uint8Array }[] = [];
+  for (let offset = 0; offset + 10 <= bytes.length;) {
+    const size = view.getUint32(offset + 4);
+    frames.push({ id: decoder.decode(bytes.subarray(offset, offset + 4)), body: bytes.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  return frames;
+}
+
+// UTF-16 text after the encoding byte and byte order mark
+const readText = (body: Uint8Array) => new TextDecoder('utf-16le').decode(body.subarray(3));
+
+describe("buildId3Tag", () => {
+  const tag = buildId3Tag({
+    title: 'Café — Intro',
+    artist: 'Kore',
+    chapters: [{ title: 'Welcome', startTime: 0, endTime: 1.5 }, { title: 'Setup', startTime: 1.5, endTime: 4.25 }],
+  });
+  const frames = readFrames(tag.subarray(10));
+
+  it("writes a version 2.3 header with a synchsafe size", () => {
+    expect(decoder.decode(tag.subarray(0, 3))).toBe('ID3');
+    expect([tag[3], tag[4], tag[5]]).toEqual([3, 0, 0]);
+    const size = (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+    expect(size).toBe(tag.length - 10);
+    expect(Array.from(tag.subarray(6, 10)).every(byte => byte < 0x80)).toBe(true);
+  });
+
+  it("writes text frames in UTF-16", () => {
+    expect(frames.slice(0, 2).map(f => [f.id, readText(f.body)])).toEqual([['TIT2', 'Café — Intro'], ['TPE1', 'Kore']]);
+  });
+
+  it("lists chapters in a top-level table of contents", () => {
+    const toc = frames.find(f => f.id === 'CTOC')!.body;
+    expect(decoder.decode(toc)).toBe('toc\0\x03\x02chp0\0chp1\0');
+
+    const chapters = frames.filter(f => f.id === 'CHAP').map(({ body }) => {
+      const view = new DataView(body.buffer, body.byteOffset + 5);
+      return {
+        id: decoder.decode(body.subarray(0, 4)),
+        start: view.getUint32(0),
+        end: view.getUint32(4),
+        title: readText(readFrames(body.subarray(21))[0].body),
+      };
+    });
+    expect(chapters).toEqual([
+      { id: 'chp0', start: 0, end: 1500, title: 'Welcome' },
+      { id: 'chp1', start: 1500, end: 4250, title: 'Setup' },
+    ]);
+  });
+
+  it("writes an empty tag when there is nothing to say", () => {
+    expect(Array.from(buildId3Tag({}))).toEqual([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,94 @@
+// ID3v2.3 tags for MP3 files: text frames plus chapters as CHAP frames listed
+// in a top-level CTOC table of contents (ID3v2 Chapter Frame Addendum).
+
+export interface Id3Chapter {
+  title: string;
+  startTime: number; // in seconds
+  endTime: number;
+}
+
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  software?: string;
+  chapters?: Id3Chapter[];
+}
+
+// A CTOC entry count is a single byte
+const MAX_TOC_ENTRIES = 255;
+const NO_BYTE_OFFSET = 0xffffffff;
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const uint32 = (value: number) => {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value >>> 0);
+  return out;
+};
+
+function frame(id: string, body: Uint8Array): Uint8Array {
+  // Version 2.3 frame sizes are plain big-endian integers, not synchsafe
+  return concatBytes([latin1(id), uint32(body.length), new Uint8Array(2), body]);
+}
+
+// Text in UTF-16 with a byte order mark (encoding 1), so any title survives
+function textFrame(id: string, text: string): Uint8Array {
+  const body = new Uint8Array(3 + text.length * 2);
+  const view = new DataView(body.buffer);
+  body[0] = 1;
+  body[1] = 0xff;
+  body[2] = 0xfe;
+  for (let i = 0; i < text.length; i++) view.setUint16(3 + i * 2, text.charCodeAt(i), true);
+  return frame(id, body);
+}
+
+function chapterFrame(elementId: string, chapter: Id3Chapter): Uint8Array {
+  return frame('CHAP', concatBytes([
+    latin1(elementId), new Uint8Array(1),
+    uint32(Math.round(chapter.startTime * 1000)),
+    uint32(Math.round(chapter.endTime * 1000)),
+    uint32(NO_BYTE_OFFSET),
+    uint32(NO_BYTE_OFFSET),
+    textFrame('TIT2', chapter.title),
+  ]));
+}
+
+function tableOfContentsFrame(childIds: string[]): Uint8Array {
+  return frame('CTOC', concatBytes([
+    latin1('toc'), new Uint8Array(1),
+    Uint8Array.of(0b11, childIds.length), // Top-level, ordered
+    ...childIds.map(id => concatBytes([latin1(id), new Uint8Array(1)])),
+  ]));
+}
+
+// Complete tag, to be written in front of the MP3 frames
+export function buildId3Tag(tags: Id3Tags): Uint8Array {
+  const frames: Uint8Array[] = [];
+  if (tags.title) frames.push(textFrame('TIT2', tags.title));
+  if (tags.artist) frames.push(textFrame('TPE1', tags.artist));
+  if (tags.album) frames.push(textFrame('TALB', tags.album));
+  if (tags.software) frames.push(textFrame('TSSE', tags.software));
+
+  const chapters = (tags.chapters ?? []).slice(0, MAX_TOC_ENTRIES);
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, i) => `chp${i}`);
+    frames.push(tableOfContentsFrame(ids));
+    chapters.forEach((chapter, i) => frames.push(chapterFrame(ids[i], chapter)));
+  }
+
+  const body = concatBytes(frames);
+  // The tag size is synchsafe: 7 bits per byte
+  const size = Uint8Array.of((body.length >> 21) & 0x7f, (body.length >> 14) & 0x7f, (body.length >> 7) & 0x7f, body.length & 0x7f);
+  return concatBytes([latin1('ID3'), Uint8Array.of(3, 0, 0), size, body]);
+}
@@ -0,0 +1,33 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+// MP3 encoding with LAME compiled to JavaScript. Mono and stereo only.
+
+const SAMPLES_PER_FRAME = 1152;
+// MPEG-2 and 2.5 (sample rates below 32 kHz) stop at 160 kbps
+const LOW_RATE_MAX_KBPS = 160;
+
+const toInt16 = (data: Float32Array) => {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return out;
+};
+
+export function encodeMp3(buffer: AudioBuffer, bitrateKbps: number): Blob {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const kbps = buffer.sampleRate < 32000 ? Math.min(LOW_RATE_MAX_KBPS, bitrateKbps) : bitrateKbps;
+  const encoder = new Mp3Encoder(channels, buffer.sampleRate, kbps);
+  const left = toInt16(buffer.getChannelData(0));
+  const right = channels > 1 ? toInt16(buffer.getChannelData(1)) : undefined;
+
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < left.length; i += SAMPLES_PER_FRAME) {
+    const encoded = encoder.encodeBuffer(left.subarray(i, i + SAMPLES_PER_FRAME), right?.subarray(i, i + SAMPLES_PER_FRAME));
+    if (encoded.length > 0) parts.push(encoded);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(tail);
+  return new Blob(parts, { type: 'audio/mpeg' });
+}
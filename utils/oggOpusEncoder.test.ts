@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTone } from "../test/fakeAudio";
+import { encodeOggOpus } from "./oggOpusEncoder";
+
+const PACKET_BYTES = 255; // Laced as a full segment plus an empty one
+const ENCODER_PRE_SKIP = 120;
+
+// WebCodecs stand-in: 20 ms packets, the last one padded to a full frame like
+// libopus, and an OpusHead with the encoder's pre-skip on the first output
+class FakeAudioEncoder {
+  static isConfigSupported = async (config: AudioEncoderConfig) => ({ supported: config.codec === 'opus', config });
+  private sentHead = false;
+  constructor(private readonly init: AudioEncoderInit) {}
+  configure() {}
+  encode(data: { numberOfFrames: number; sampleRate: number }) {
+    const frameSize = data.sampleRate / 50;
+    for (let start = 0; start < data.numberOfFrames; start += frameSize) {
+      const head = new Uint8Array(19);
+      head.set(new TextEncoder().encode('OpusHead'));
+      head[10] = ENCODER_PRE_SKIP;
+      const chunk = { byteLength: PACKET_BYTES, duration: 20000, copyTo: (target: Uint8Array) => target.fill(7) };
+      this.init.output(chunk as unknown as EncodedAudioChunk, this.sentHead ? {} : { decoderConfig: { codec: 'opus', sampleRate: data.sampleRate, numberOfChannels: 1, description: head } });
+      this.sentHead = true;
+    }
+  }
+  flush = async () => {};
+  close() {}
+}
+
+class FakeAudioData {
+  constructor(init: AudioDataInit) { Object.assign(this, init); }
+  close() {}
+}
+
+// Ogg's CRC-32, computed bit by bit over the page with its checksum zeroed
+function oggCrc(page: Uint8Array) {
+  const bytes = page.slice();
+  bytes.fill(0, 22, 26);
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = (crc ^ (byte << 24)) >>> 0;
+    for (let bit = 0; bit < 8; bit++) crc = (crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1) >>> 0;
+  }
+  return crc;
+}
+
+function readPages(bytes: Uint8Array) {
+  const pages = [];
+  for (let offset = 0; offset < bytes.length;) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    const lacing = Array.from(bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]));
+    const length = 27 + lacing.length + lacing.reduce((sum, n) => sum + n, 0);
+    const page = bytes.subarray(offset, offset + length);
+    pages.push({
+      capture: new TextDecoder().decode(page.subarray(0, 4)),
+      flags: page[5],
+      granule: view.getUint32(6, true) + view.getUint32(10, true) * 0x100000000,
+      sequence: view.getUint32(18, true),
+      crcValid: view.getUint32(22, true) === oggCrc(page),
+      lacing,
+      body: page.subarray(27 + lacing.length),
+    });
+    offset += length;
+  }
+  return pages;
+}
+
+describe("encodeOggOpus", () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioEncoder', FakeAudioEncoder);
+    vi.stubGlobal('AudioData', FakeAudioData);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("wraps the packets in checksummed Ogg pages of at most 255 segments", async () => {
+    // 2.99 s at 24 kHz: 150 packets, the last one padded
+    const blob = await encodeOggOpus(createTone(440, 2.99, 24000), 64);
+    expect(blob.type).toBe('audio/ogg');
+    const pages = readPages(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(pages.map(p => [p.capture, p.sequence, p.crcValid])).toEqual([0, 1, 2, 3].map(i => ['OggS', i, true]));
+    expect(pages.map(p => p.flags)).toEqual([0x02, 0, 0, 0x04]);
+    expect(pages.map(p => p.lacing.length)).toEqual([1, 1, 254, 46]);
+    expect(pages[2].lacing.slice(0, 4)).toEqual([255, 0, 255, 0]);
+    expect(pages[2].body.length).toBe(127 * PACKET_BYTES);
+  });
+
+  it("writes the encoder's pre-skip and ends on the last real sample", async () => {
+    const blob = await encodeOggOpus(createTone(440, 2.99, 24000), 64);
+    const pages = readPages(new Uint8Array(await blob.arrayBuffer()));
+
+    const head = new DataView(pages[0].body.buffer, pages[0].body.byteOffset);
+    expect(new TextDecoder().decode(pages[0].body.subarray(0, 8))).toBe('OpusHead');
+    expect([pages[0].body[9], head.getUint16(10, true), head.getUint32(12, true)]).toEqual([1, ENCODER_PRE_SKIP, 24000]);
+    expect(new TextDecoder().decode(pages[1].body.subarray(0, 8))).toBe('OpusTags');
+
+    expect(pages.map(p => p.granule)).toEqual([0, 0, ENCODER_PRE_SKIP + 127 * 960, ENCODER_PRE_SKIP + 71760 * 2]);
+  });
+
+  it("explains when the browser has no encoder", async () => {
+    vi.unstubAllGlobals();
+    await expect(encodeOggOpus(createTone(440, 0.1, 24000), 64)).rejects.toThrow(/can't encode Opus/);
+  });
+});
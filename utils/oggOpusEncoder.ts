@@ -0,0 +1,169 @@
+// Ogg/Opus encoding with the browser's WebCodecs AudioEncoder. The encoder
+// only produces raw Opus packets, so they are wrapped in Ogg pages here.
+
+// Rates Opus encodes natively; anything else is resampled to 48 kHz first
+const OPUS_INPUT_RATES = [8000, 12000, 16000, 24000, 48000];
+const OPUS_GRANULE_RATE = 48000; // Ogg/Opus positions always count 48 kHz samples
+const DEFAULT_PRE_SKIP = 312; // libopus encoder look-ahead at 48 kHz
+const FRAMES_PER_INPUT = 4800;
+const MAX_PAGE_SEGMENTS = 255;
+
+export const isOpusEncodingAvailable = () => typeof AudioEncoder !== 'undefined';
+
+const OGG_CRC_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let b = 0; b < 8; b++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  OGG_CRC_TABLE[i] = crc >>> 0;
+}
+
+function oggPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array {
+  // Each packet is laced into 255-byte segments, ended by a shorter one
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+  const bodyLength = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = flags;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ page[i]) & 0xff]) >>> 0;
+  view.setUint32(22, crc, true);
+  return page;
+}
+
+const segmentsFor = (packet: Uint8Array) => Math.floor(packet.length / 255) + 1;
+
+function opusHead(channels: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  head[18] = 0; // Channel mapping family: mono or stereo
+  return head;
+}
+
+function opusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode('narrator-voice-studio');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // No user comments
+  return tags;
+}
+
+async function toOpusRate(buffer: AudioBuffer): Promise<AudioBuffer> {
+  if (OPUS_INPUT_RATES.includes(buffer.sampleRate)) return buffer;
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, Math.ceil(buffer.duration * OPUS_GRANULE_RATE), OPUS_GRANULE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+}
+
+export async function encodeOggOpus(input: AudioBuffer, bitrateKbps: number): Promise<Blob> {
+  if (!isOpusEncodingAvailable()) {
+    throw new Error("This browser can't encode Opus. Try Chrome, Edge or Firefox, or pick another format.");
+  }
+  const buffer = await toOpusRate(input);
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: buffer.sampleRate, numberOfChannels: channels, bitrate: bitrateKbps * 1000 };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`This browser can't encode Opus at ${buffer.sampleRate} Hz.`);
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round((chunk.duration ?? 0) * OPUS_GRANULE_RATE / 1e6) });
+      // The browser's own OpusHead carries the encoder's real pre-skip
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        const head = new Uint8Array(ArrayBuffer.isView(description) ? description.buffer : description);
+        if (head.length >= 12 && new TextDecoder().decode(head.subarray(0, 8)) === 'OpusHead') {
+          preSkip = head[10] | (head[11] << 8);
+        }
+      }
+    },
+    error: (e) => { failure = e; },
+  });
+  encoder.configure(config);
+
+  for (let start = 0; start < buffer.length; start += FRAMES_PER_INPUT) {
+    const frames = Math.min(FRAMES_PER_INPUT, buffer.length - start);
+    const planar = new Float32Array(frames * channels);
+    for (let ch = 0; ch < channels; ch++) {
+      planar.set(buffer.getChannelData(ch).subarray(start, start + frames), ch * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round(start * 1e6 / buffer.sampleRate),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  // The last page's position marks where the real audio ends, so players trim the padding
+  const serial = (Math.random() * 0x100000000) >>> 0;
+  const totalSamples = preSkip + Math.round(buffer.length * OPUS_GRANULE_RATE / buffer.sampleRate);
+  const pages = [
+    oggPage([opusHead(channels, preSkip, input.sampleRate)], 0, serial, 0, 0x02),
+    oggPage([opusTags()], 0, serial, 1, 0),
+  ];
+  let granule = preSkip;
+  let pending: Uint8Array[] = [];
+  let segments = 0;
+  packets.forEach((packet, i) => {
+    if (segments + segmentsFor(packet.data) > MAX_PAGE_SEGMENTS) {
+      pages.push(oggPage(pending, granule, serial, pages.length, 0));
+      pending = [];
+      segments = 0;
+    }
+    pending.push(packet.data);
+    segments += segmentsFor(packet.data);
+    granule += packet.samples;
+    if (i === packets.length - 1) {
+      pages.push(oggPage(pending, Math.min(granule, totalSamples), serial, pages.length, 0x04));
+    }
+  });
+
+  return new Blob(pages, { type: 'audio/ogg' });
+}
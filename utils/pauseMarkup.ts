@@ -0,0 +1,46 @@
+// Inline pause markup for narration text: `[pause 750ms]`, `[pause 1.5s]` or
+// `[break]`. Markers are never sent to the TTS model; the text is split at
+// them and silence of the requested length is inserted when assembling.
+
+export const BREAK_SECONDS = 1;
+// Guards against typos like [pause 7500s]
+export const MAX_PAUSE_SECONDS = 60;
+
+export type NarrationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'pause'; seconds: number };
+
+const MARKER_PATTERN = /\[\s*(?:break|pause\s+(\d+(?:\.\d+)?)\s*(ms|s)?)\s*\]/gi;
+
+// A bare number is read as milliseconds, matching the `750ms` form
+const toSeconds = (value: string | undefined, unit: string | undefined) => {
+  if (value === undefined) return BREAK_SECONDS;
+  const amount = parseFloat(value);
+  const seconds = unit?.toLowerCase() === 's' ? amount : amount / 1000;
+  return Math.min(MAX_PAUSE_SECONDS, seconds);
+};
+
+// Splits text into spoken segments and pauses, in order. Adjacent pauses are
+// merged and whitespace-only text between markers is dropped.
+export function parsePauseMarkup(text: string): NarrationSegment[] {
+  const segments: NarrationSegment[] = [];
+
+  const pushText = (piece: string) => {
+    if (piece.trim()) segments.push({ type: 'text', text: piece.trim() });
+  };
+  const pushPause = (seconds: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'pause') last.seconds += seconds;
+    else segments.push({ type: 'pause', seconds });
+  };
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    pushPause(toSeconds(match[1], match[2]));
+    lastIndex = match.index! + match[0].length;
+  }
+  pushText(text.slice(lastIndex));
+
+  return segments;
+}
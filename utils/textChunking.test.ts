@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { splitSentences, splitTextIntoChunks } from "./textChunking";
+
+describe("splitSentences", () => {
+  it("splits after terminal punctuation followed by whitespace", () => {
+    expect(splitSentences('One. Two! "Three?" Four')).toEqual(['One. ', 'Two! ', '"Three?" ', 'Four']);
+  });
+
+  it("keeps decimals, abbreviations and initials inside the sentence", () => {
+    const text = 'Version 2.5 ships today. Ask Dr. Smith, e.g. by mail. J. R. Jones agreed.';
+    expect(splitSentences(text)).toEqual(['Version 2.5 ships today. ', 'Ask Dr. Smith, e.g. by mail. ', 'J. R. Jones agreed.']);
+  });
+
+  it("does not split before a lowercase word or after leading punctuation", () => {
+    expect(splitSentences('... And then. Wait... what? Yes.')).toEqual(['... And then. ', 'Wait... what? ', 'Yes.']);
+  });
+
+  it("joins back into the paragraph", () => {
+    const text = '  Hello there.   How are you?  Fine.\t';
+    expect(splitSentences(text).join('')).toBe(text);
+  });
+});
+
+describe("splitTextIntoChunks", () => {
+  it("returns short text as a single chunk", () => {
+    expect(splitTextIntoChunks('Just one line.', 100)).toEqual(['Just one line.']);
+  });
+
+  it("returns nothing for blank text", () => {
+    expect(splitTextIntoChunks(' \n\n ', 100)).toEqual([]);
+  });
+
+  it("prefers paragraph breaks, then sentence ends", () => {
+    const text = 'First paragraph.\n\nSecond one here. It has two sentences.';
+    expect(splitTextIntoChunks(text, 40)).toEqual(['First paragraph.\n\n', 'Second one here. It has two sentences.']);
+    expect(splitTextIntoChunks(text, 30)).toEqual(['First paragraph.\n\n', 'Second one here. ', 'It has two sentences.']);
+  });
+
+  it("falls back to words, and cuts words longer than the limit", () => {
+    expect(splitTextIntoChunks('alpha beta gamma', 11)).toEqual(['alpha beta ', 'gamma']);
+    expect(splitTextIntoChunks('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it("keeps every chunk within the limit", () => {
+    const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+    for (const chunk of splitTextIntoChunks(text, 60)) expect(chunk.trim().length).toBeLessThanOrEqual(60);
+  });
+
+  it("never drops or adds characters", () => {
+    const text = '...Intro.\n\n  Version 2.5 is out, e.g. for Dr. Who!  Really?\n\n\nThe end.  ';
+    for (const limit of [5, 12, 30, 1000]) expect(splitTextIntoChunks(text, limit).join('')).toBe(text);
+  });
+});
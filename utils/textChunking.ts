@@ -0,0 +1,85 @@
+// Terminal punctuation and any closing quotes or brackets, followed by
+// whitespace or the end of the text ("2.5" and "e.g.," never match)
+const SENTENCE_END = /[.!?]+["'”’)\]]*(?=\s|$)/g;
+// Titles and Latin abbreviations whose full stop does not end the sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'cf', 'e.g', 'i.e']);
+
+// Whether the punctuation between start and end closes the sentence begun at from
+function endsSentence(text: string, from: number, start: number, end: number): boolean {
+  // Nothing but punctuation so far, as in a leading "..."
+  if (!/[\p{L}\p{N}]/u.test(text.slice(from, start))) return false;
+  // A lowercase word after it carries on the same sentence ("wait... what")
+  if (/^\s*\p{Ll}/u.test(text.slice(end))) return false;
+  if (text[start] !== '.' || text[start + 1] === '.') return true;
+  // Initials ("J. Smith") and known abbreviations ("Dr. Smith")
+  const word = text.slice(from, start).split(/\s/).pop()!.replace(/^["'“‘(\[]+/, '').toLowerCase();
+  return word.length > 1 && !ABBREVIATIONS.has(word);
+}
+
+// Splits a paragraph into sentences, each keeping its terminating punctuation
+// and the whitespace after it, so the sentences join back into the paragraph
+export function splitSentences(paragraph: string): string[] {
+  const sentences: string[] = [];
+  let from = 0;
+  for (const match of paragraph.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    if (!endsSentence(paragraph, from, match.index, end)) continue;
+    const next = end + paragraph.slice(end).search(/\S|$/);
+    sentences.push(paragraph.slice(from, next));
+    from = next;
+  }
+  if (from < paragraph.length) sentences.push(paragraph.slice(from));
+  return sentences;
+}
+
+// Paragraphs, each with the blank lines after it
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = [];
+  let from = 0;
+  for (const match of text.matchAll(/\n\s*\n\s*/g)) {
+    const next = match.index + match[0].length;
+    paragraphs.push(text.slice(from, next));
+    from = next;
+  }
+  if (from < text.length) paragraphs.push(text.slice(from));
+  return paragraphs;
+}
+
+// Last resort for a single sentence that is longer than the limit: its words,
+// with any word that is too long on its own cut into pieces
+function splitWords(sentence: string, limit: number): string[] {
+  return sentence.match(/\S*\s*/g)!.filter(Boolean).flatMap(word => {
+    const pieces: string[] = [];
+    let rest = word;
+    while (rest.trim().length > limit) {
+      const cut = rest.search(/\S/) + limit;
+      pieces.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    return [...pieces, rest];
+  });
+}
+
+// Splits long text into chunks of at most maxChars, preferring paragraph
+// breaks, then sentence ends, then word boundaries. Whitespace stays with the
+// chunk it follows and is not counted, so the chunks join back into the text.
+export function splitTextIntoChunks(text: string, maxChars: number): string[] {
+  if (!text.trim()) return [];
+  const limit = Math.max(1, Math.floor(maxChars));
+  const fits = (piece: string) => piece.trim().length <= limit;
+
+  const pieces = splitParagraphs(text).flatMap(paragraph => fits(paragraph) ? [paragraph] :
+    splitSentences(paragraph).flatMap(sentence => fits(sentence) ? [sentence] : splitWords(sentence, limit)));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current.trim() && !fits(current + piece)) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
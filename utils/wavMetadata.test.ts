@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { WavMetadata } from "../types";
+import { createTestBuffer } from "../test/fakeAudio";
+import { bufferToWavBlob } from "./audioUtils";
+import { readWavFormat, readWavMetadata } from "./wavMetadata";
+
+const metadata: WavMetadata = {
+  title: 'Intro — take 2',
+  artist: 'Kore',
+  album: 'MyApp',
+  comment: 'Generated',
+  software: 'Narrator Voice Studio',
+  date: '2026-01-02',
+  description: 'Welcome to the tutorial.',
+  originator: 'Narrator Voice Studio',
+  originatorReference: 'intro',
+  createdAt: new Date(2026, 0, 2, 3, 4, 5),
+  codingHistory: 'A=PCM,F=24000,W=24,M=mono',
+  cues: [{ time: 0.5, label: 'Second sentence' }, { time: 0, label: 'First sentence' }],
+};
+
+// 24-bit mono with an odd frame count, so the data chunk needs a pad byte
+const buffer = createTestBuffer([new Float32Array(24001)], 24000);
+
+describe("WAV metadata", () => {
+  it("round-trips tags, the bext chunk and cue markers", async () => {
+    const data = await bufferToWavBlob(buffer, 24, metadata).arrayBuffer();
+    expect(readWavMetadata(data)).toEqual({
+      ...metadata,
+      cues: [{ time: 0, label: 'First sentence' }, { time: 0.5, label: 'Second sentence' }],
+    });
+    expect(readWavFormat(data)).toEqual({ sampleRate: 24000, channels: 1, bitDepth: 24 });
+  });
+
+  it("keeps every chunk at an even offset", async () => {
+    const data = await bufferToWavBlob(buffer, 24, metadata).arrayBuffer();
+    const view = new DataView(data);
+    const ids: string[] = [];
+    for (let offset = 12; offset + 8 <= data.byteLength;) {
+      ids.push(new TextDecoder().decode(new Uint8Array(data, offset, 4)));
+      const size = view.getUint32(offset + 4, true);
+      offset += 8 + size + (size % 2);
+    }
+    expect(ids).toEqual(['fmt ', 'bext', 'LIST', 'data', 'cue ', 'LIST']);
+    expect(view.getUint32(4, true)).toBe(data.byteLength - 8);
+  });
+
+  it("cuts an over-long description at a character boundary", async () => {
+    const data = await bufferToWavBlob(buffer, 16, { description: 'é'.repeat(200) }).arrayBuffer();
+    expect(readWavMetadata(data)?.description).toBe('é'.repeat(128));
+  });
+
+  it("reads files without metadata as empty, and other formats as null", async () => {
+    expect(readWavMetadata(await bufferToWavBlob(buffer).arrayBuffer())).toEqual({});
+    expect(readWavMetadata(new TextEncoder().encode('fLaC').buffer)).toBeNull();
+  });
+});
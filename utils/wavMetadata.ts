@@ -0,0 +1,212 @@
+import { WavCue, WavMetadata } from '../types';
+
+// RIFF metadata chunks for WAV files: LIST/INFO tags, a Broadcast WAV `bext`
+// chunk, and `cue ` points named by `labl` entries in a LIST/adtl chunk.
+
+const INFO_TAGS: [keyof WavMetadata, string][] = [
+  ['title', 'INAM'],
+  ['artist', 'IART'],
+  ['album', 'IPRD'],
+  ['comment', 'ICMT'],
+  ['subject', 'ISBJ'],
+  ['software', 'ISFT'],
+  ['date', 'ICRD'],
+];
+
+// Fixed-size fields of a version 1 `bext` chunk, in order
+const BEXT_DESCRIPTION = 256;
+const BEXT_ORIGINATOR = 32;
+const BEXT_ORIGINATOR_REFERENCE = 32;
+const BEXT_DATE = 10;
+const BEXT_TIME = 8;
+const BEXT_FIXED_LENGTH = 602;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// A chunk with its 8-byte header, padded to an even length as RIFF requires
+function riffChunk(id: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(out.buffer);
+  out.set(encoder.encode(id), 0);
+  view.setUint32(4, body.length, true);
+  out.set(body, 8);
+  return out;
+}
+
+const listChunk = (type: string, subchunks: Uint8Array[]) =>
+  riffChunk('LIST', concatBytes([encoder.encode(type), ...subchunks]));
+
+// Null-terminated text
+const zstring = (text: string) => concatBytes([encoder.encode(text), new Uint8Array(1)]);
+
+// Copies text into a fixed-size field, cut at a character boundary
+function writeFixed(target: Uint8Array, offset: number, size: number, text: string) {
+  let bytes = encoder.encode(text);
+  let chars = text.length;
+  while (bytes.length > size) bytes = encoder.encode(text.slice(0, --chars));
+  target.set(bytes, offset);
+}
+
+const readFixed = (bytes: Uint8Array, offset: number, size: number) =>
+  decoder.decode(bytes.subarray(offset, offset + size)).replace(/\0[\s\S]*$/, '').trim();
+
+function bextChunk(metadata: WavMetadata): Uint8Array {
+  const history = metadata.codingHistory ? encoder.encode(metadata.codingHistory) : new Uint8Array(0);
+  const body = new Uint8Array(BEXT_FIXED_LENGTH + history.length);
+  const created = metadata.createdAt ?? new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  let offset = 0;
+  writeFixed(body, offset, BEXT_DESCRIPTION, metadata.description ?? '');
+  offset += BEXT_DESCRIPTION;
+  writeFixed(body, offset, BEXT_ORIGINATOR, metadata.originator ?? metadata.software ?? '');
+  offset += BEXT_ORIGINATOR;
+  writeFixed(body, offset, BEXT_ORIGINATOR_REFERENCE, metadata.originatorReference ?? '');
+  offset += BEXT_ORIGINATOR_REFERENCE;
+  writeFixed(body, offset, BEXT_DATE, `${created.getFullYear()}-${pad(created.getMonth() + 1)}-${pad(created.getDate())}`);
+  offset += BEXT_DATE;
+  writeFixed(body, offset, BEXT_TIME, `${pad(created.getHours())}:${pad(created.getMinutes())}:${pad(created.getSeconds())}`);
+  offset += BEXT_TIME;
+  offset += 8; // Time reference: the file starts at sample 0
+  new DataView(body.buffer).setUint16(offset, 1, true); // Version
+  // UMID and reserved bytes stay zero
+  body.set(history, BEXT_FIXED_LENGTH);
+  return riffChunk('bext', body);
+}
+
+function cueChunks(cues: WavCue[], sampleRate: number): Uint8Array[] {
+  const points = new Uint8Array(4 + cues.length * 24);
+  const view = new DataView(points.buffer);
+  view.setUint32(0, cues.length, true);
+  cues.forEach((cue, i) => {
+    const offset = 4 + i * 24;
+    const frame = Math.max(0, Math.round(cue.time * sampleRate));
+    view.setUint32(offset, i + 1, true); // Cue point ID
+    view.setUint32(offset + 4, frame, true); // Play order position
+    points.set(encoder.encode('data'), offset + 8);
+    // Chunk start and block start are zero for uncompressed data in a single `data` chunk
+    view.setUint32(offset + 20, frame, true);
+  });
+
+  const labels = cues.map((cue, i) => {
+    const id = new Uint8Array(4);
+    new DataView(id.buffer).setUint32(0, i + 1, true);
+    return riffChunk('labl', concatBytes([id, zstring(cue.label)]));
+  });
+
+  return [riffChunk('cue ', points), listChunk('adtl', labels)];
+}
+
+// Chunks to write before the `data` chunk (tags) and after it (cue markers)
+export function encodeWavMetadata(metadata: WavMetadata, sampleRate: number): { leading: Uint8Array; trailing: Uint8Array } {
+  const tags = INFO_TAGS
+    .filter(([key]) => typeof metadata[key] === 'string' && metadata[key])
+    .map(([key, id]) => riffChunk(id, zstring(metadata[key] as string)));
+
+  const leading = [bextChunk(metadata)];
+  if (tags.length > 0) leading.push(listChunk('INFO', tags));
+  const trailing = metadata.cues?.length ? cueChunks(metadata.cues, sampleRate) : [];
+  return { leading: concatBytes(leading), trailing: concatBytes(trailing) };
+}
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+// The sample format from a WAV file's `fmt ` chunk; null for other formats
+export function readWavFormat(data: ArrayBuffer): WavFormat | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const fourcc = (offset: number) => decoder.decode(bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || fourcc(0) !== 'RIFF' || fourcc(8) !== 'WAVE') return null;
+
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    if (fourcc(offset) === 'fmt ' && size >= 16 && offset + 24 <= bytes.length) {
+      return {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitDepth: view.getUint16(offset + 22, true),
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Reads tags and cue markers back from a WAV file. Returns null for anything
+// that isn't a RIFF WAVE file; unknown chunks are skipped.
+export function readWavMetadata(data: ArrayBuffer): WavMetadata | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const fourcc = (offset: number) => decoder.decode(bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || fourcc(0) !== 'RIFF' || fourcc(8) !== 'WAVE') return null;
+
+  const metadata: WavMetadata = {};
+  let sampleRate = 0;
+  const cueFrames = new Map<number, number>();
+  const cueLabels = new Map<number, string>();
+
+  const readSubchunks = (start: number, end: number, onChunk: (id: string, offset: number, size: number) => void) => {
+    for (let offset = start; offset + 8 <= end;) {
+      const size = view.getUint32(offset + 4, true);
+      onChunk(fourcc(offset), offset + 8, Math.min(size, end - offset - 8));
+      offset += 8 + size + (size % 2);
+    }
+  };
+
+  readSubchunks(12, bytes.length, (id, offset, size) => {
+    if (id === 'fmt ' && size >= 8) {
+      sampleRate = view.getUint32(offset + 4, true);
+    } else if (id === 'bext' && size >= BEXT_FIXED_LENGTH) {
+      let field = offset;
+      metadata.description = readFixed(bytes, field, BEXT_DESCRIPTION) || undefined;
+      field += BEXT_DESCRIPTION;
+      metadata.originator = readFixed(bytes, field, BEXT_ORIGINATOR) || undefined;
+      field += BEXT_ORIGINATOR;
+      metadata.originatorReference = readFixed(bytes, field, BEXT_ORIGINATOR_REFERENCE) || undefined;
+      field += BEXT_ORIGINATOR_REFERENCE;
+      const date = readFixed(bytes, field, BEXT_DATE);
+      const time = readFixed(bytes, field + BEXT_DATE, BEXT_TIME);
+      const created = new Date(`${date}T${time || '00:00:00'}`);
+      if (!isNaN(created.getTime())) metadata.createdAt = created;
+      metadata.codingHistory = readFixed(bytes, offset + BEXT_FIXED_LENGTH, size - BEXT_FIXED_LENGTH) || undefined;
+    } else if (id === 'LIST' && size >= 4) {
+      const type = fourcc(offset);
+      readSubchunks(offset + 4, offset + size, (subId, subOffset, subSize) => {
+        if (type === 'INFO') {
+          const tag = INFO_TAGS.find(([, infoId]) => infoId === subId);
+          if (tag) (metadata as Record<string, unknown>)[tag[0]] = readFixed(bytes, subOffset, subSize);
+        } else if (type === 'adtl' && subId === 'labl' && subSize >= 4) {
+          cueLabels.set(view.getUint32(subOffset, true), readFixed(bytes, subOffset + 4, subSize - 4));
+        }
+      });
+    } else if (id === 'cue ' && size >= 4) {
+      const count = Math.min(view.getUint32(offset, true), Math.floor((size - 4) / 24));
+      for (let i = 0; i < count; i++) {
+        const point = offset + 4 + i * 24;
+        cueFrames.set(view.getUint32(point, true), view.getUint32(point + 20, true));
+      }
+    }
+  });
+
+  if (cueFrames.size > 0 && sampleRate > 0) {
+    metadata.cues = [...cueFrames.entries()]
+      .map(([cueId, frame]) => ({ time: frame / sampleRate, label: cueLabels.get(cueId) ?? `Marker ${cueId}` }))
+      .sort((a, b) => a.time - b.time);
+  }
+  return metadata;
+}